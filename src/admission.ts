@@ -0,0 +1,73 @@
+import {
+  MAX_CHANNELS,
+  MAX_CONNECT_REQUESTS_PER_PEER,
+  MAX_INFLIGHT_OFFERS,
+  MAX_INFLIGHT_OFFERS_PER_IP,
+  CONNECT_REQUEST_RATE_WINDOW
+} from './constants.js'
+
+// Limits applied by listeners and relay nodes to incoming offers and connect requests
+export interface AdmissionLimits {
+  // Max offers being answered at a time per remote IP over HTTP; further offers get a 429
+  maxInflightOffersPerIP?: number
+  // Max offers being answered at a time over HTTP; further offers get a 503
+  maxInflightOffers?: number
+  // Max open channels per listener; offers beyond that get a 503
+  maxChannels?: number
+  // Max ConnectRequests a joined peer may make over its signalling channel per window;
+  // further requests get a ConnectReject with RelayOverloaded
+  maxConnectRequestsPerPeer?: number
+  // Window (ms) over which ConnectRequests per peer are counted
+  connectRequestWindow?: number
+}
+
+export function admissionLimitsWithDefaults (limits: AdmissionLimits = {}): Required<AdmissionLimits> {
+  return {
+    maxInflightOffersPerIP: limits.maxInflightOffersPerIP ?? MAX_INFLIGHT_OFFERS_PER_IP,
+    maxInflightOffers: limits.maxInflightOffers ?? MAX_INFLIGHT_OFFERS,
+    maxChannels: limits.maxChannels ?? MAX_CHANNELS,
+    maxConnectRequestsPerPeer: limits.maxConnectRequestsPerPeer ?? MAX_CONNECT_REQUESTS_PER_PEER,
+    connectRequestWindow: limits.connectRequestWindow ?? CONNECT_REQUEST_RATE_WINDOW
+  }
+}
+
+// Counts events per key over fixed windows
+export class RateLimiter {
+  private readonly limit: number
+  private readonly window: number
+  private readonly counts: Map<string, { count: number, windowStart: number }> = new Map()
+  private lastSweep = Date.now()
+
+  constructor (limit: number, window: number) {
+    this.limit = limit
+    this.window = window
+  }
+
+  // Count an event for key and return false if it exceeds the limit for the current window
+  tryAcquire (key: string): boolean {
+    const now = Date.now()
+    const entry = this.counts.get(key)
+
+    // Drop the entries for expired windows once per window so that the map doesn't grow unbounded
+    if (now - this.lastSweep >= this.window) {
+      this.lastSweep = now
+      this.counts.forEach(({ windowStart }, k) => {
+        if (now - windowStart >= this.window) {
+          this.counts.delete(k)
+        }
+      })
+    }
+
+    if (entry == null || now - entry.windowStart >= this.window) {
+      this.counts.set(key, { count: 1, windowStart: now })
+      return true
+    }
+
+    if (entry.count >= this.limit) {
+      return false
+    }
+
+    entry.count++
+    return true
+  }
+}
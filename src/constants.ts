@@ -14,5 +14,49 @@ export const CLOSE_TIMEOUT = 2000
 // TTL for time cache of seen signalling channel messages in relay nodes
 export const SEEN_CACHE_TTL = 30 * 1000 // 30 seconds
 
+// Max number of message ids kept in the seen cache of relay nodes
+export const SEEN_CACHE_CAPACITY = 10000
+
 // Interval (ms) to check if channel is closed
 export const CHANNEL_CLOSED_TIMEOUT = 5 * 1000 // 5 seconds
+
+// Max size of the JSON body of a POST request to the HTTP signalling endpoint
+export const MAX_SIGNAL_BODY_SIZE = 64 * 1024 // 64 KiB
+
+// Default admission limits for listeners and relay nodes
+export const MAX_INFLIGHT_OFFERS_PER_IP = 10
+export const MAX_INFLIGHT_OFFERS = 100
+export const MAX_CHANNELS = 1000
+export const MAX_CONNECT_REQUESTS_PER_PEER = 20
+export const CONNECT_REQUEST_RATE_WINDOW = 10 * 1000 // 10 seconds
+
+// Time to wait for a response to a ConnectRequest made over the signalling channel
+export const SIGNALLING_TIMEOUT = 10 * 1000 // 10 seconds
+
+// Version of the signalling protocol spoken over signalling channels
+// Bump on incompatible changes to the signalling message schema or the exchange of messages
+export const SIGNALLING_PROTOCOL_VERSION = 5
+
+// Oldest version of the signalling protocol still understood
+// Raise along with SIGNALLING_PROTOCOL_VERSION unless older messages can still be handled
+export const MIN_SIGNALLING_PROTOCOL_VERSION = 5
+
+// Length (bytes) of the nonce sent by relay nodes in a JoinChallenge
+export const JOIN_NONCE_LENGTH = 32
+
+// Time to wait for the relay node to acknowledge a join with a JoinResponse
+export const JOIN_RESPONSE_TIMEOUT = 10 * 1000 // 10 seconds
+
+// Monitoring routes served by listeners on host:port alongside HTTP signalling
+export const HEALTH_PATH = '/health'
+export const STATUS_PATH = '/status'
+
+// Time (ms) relay nodes wait for the joined peers to leave after notifying them of a shutdown
+export const RELAY_SHUTDOWN_GRACE_PERIOD = 5 * 1000 // 5 seconds
+
+// Backoff (ms) for redialling a primary relay node after the connection to it is lost
+export const RELAY_REDIAL_INITIAL_DELAY = 1000 // 1 second
+export const RELAY_REDIAL_MAX_DELAY = 60 * 1000 // 1 minute
+
+// Default max number of relay nodes a ConnectRequest / ConnectResponse may pass through
+export const MAX_SIGNALLING_HOPS = 8
@@ -0,0 +1,67 @@
+import { logger } from '@libp2p/logger'
+import { EventEmitter, CustomEvent } from '@libp2p/interfaces/events'
+import { symbol } from '@libp2p/interface-peer-discovery'
+import type { PeerDiscovery, PeerDiscoveryEvents } from '@libp2p/interface-peer-discovery'
+import type { PeerInfo } from '@libp2p/interface-peer-info'
+import type { Startable } from '@libp2p/interfaces/startable'
+import type { Multiaddr } from '@multiformats/multiaddr'
+import { peerIdFromString } from '@libp2p/peer-id'
+
+import { P2P_WEBRTC_STAR_ID } from './constants.js'
+import type { PeerList } from './signal-message.js'
+
+const log = logger('libp2p:webrtc-direct:discovery')
+
+// Discovers the peers joined to the primary relay nodes of a peer node
+// (the transport queries the relay nodes once started and passes on the peer lists they send)
+export class WebRTCDirectDiscovery extends EventEmitter<PeerDiscoveryEvents> implements PeerDiscovery, Startable {
+  private started = false
+  // Called on start to query the primary relay nodes already joined
+  private readonly onStart: () => void
+
+  constructor (onStart: () => void) {
+    super()
+
+    this.onStart = onStart
+  }
+
+  get [symbol] (): true {
+    return true
+  }
+
+  get [Symbol.toStringTag] () {
+    return '@libp2p/webrtc-direct/discovery'
+  }
+
+  isStarted () {
+    return this.started
+  }
+
+  async start () {
+    this.started = true
+    this.onStart()
+  }
+
+  async stop () {
+    this.started = false
+  }
+
+  // Emit the peers in a PeerList from a primary relay node with addresses to dial them through it
+  handlePeerList (relayAddr: Multiaddr, peerList: PeerList) {
+    if (!this.started) {
+      return
+    }
+
+    peerList.peers.forEach(peerId => {
+      log('discovered peer %s through %s', peerId, relayAddr)
+
+      this.dispatchEvent(new CustomEvent<PeerInfo>('peer', {
+        detail: {
+          id: peerIdFromString(peerId),
+          multiaddrs: [relayAddr.encapsulate(`/${P2P_WEBRTC_STAR_ID}/p2p/${peerId}`)],
+          protocols: []
+        }
+      }))
+    })
+  }
+}
@@ -0,0 +1,13 @@
+export const codes = {
+  ERR_INVALID_SIGNALLING_MESSAGE: 'ERR_INVALID_SIGNALLING_MESSAGE',
+  ERR_UNSUPPORTED_SIGNALLING_VERSION: 'ERR_UNSUPPORTED_SIGNALLING_VERSION',
+  ERR_CONNECT_REJECTED: 'ERR_CONNECT_REJECTED',
+  ERR_SIGNALLING_TIMEOUT: 'ERR_SIGNALLING_TIMEOUT',
+  ERR_SIGNALLING_CHANNEL_CLOSED: 'ERR_SIGNALLING_CHANNEL_CLOSED',
+  ERR_SIGNAL_BODY_TOO_LARGE: 'ERR_SIGNAL_BODY_TOO_LARGE',
+  ERR_INVALID_SIGNATURE: 'ERR_INVALID_SIGNATURE',
+  ERR_LISTENER_OVERLOADED: 'ERR_LISTENER_OVERLOADED',
+  ERR_SIGNAL_REQUEST_FAILED: 'ERR_SIGNAL_REQUEST_FAILED',
+  ERR_JOIN_REJECTED: 'ERR_JOIN_REJECTED',
+  ERR_JOIN_TIMEOUT: 'ERR_JOIN_TIMEOUT'
+}
@@ -1,6 +1,11 @@
 import { logger } from '@libp2p/logger'
+import { randomBytes } from '@libp2p/crypto'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
 
-import { CHANNEL_CLOSED_TIMEOUT } from './constants.js'
+import { CHANNEL_CLOSED_TIMEOUT, MIN_SIGNALLING_PROTOCOL_VERSION, SIGNALLING_PROTOCOL_VERSION } from './constants.js'
+import { codes } from './errors.js'
+import { encodeSignallingMessage } from './signal-codec.js'
+import type { VersionMismatch } from './signal-message.js'
 
 const debugLog = logger('laconic:webrtc-direct:debug')
 
@@ -15,3 +20,40 @@ export function setChannelClosingInterval (channel: RTCDataChannel, channelClose
 
   return closingInterval
 }
+
+// Delay before retry number attempt (from 0), doubling from initialDelay up to maxDelay;
+// jittered between half and the full delay so that peers that lost the same relay node don't redial in lockstep
+export function backoffDelay (attempt: number, initialDelay: number, maxDelay: number): number {
+  const delay = Math.min(maxDelay, initialDelay * 2 ** attempt)
+
+  return delay / 2 + Math.random() * delay / 2
+}
+
+// Random id for a signalling message, used by relay nodes to drop already seen messages
+export function createMessageId (): string {
+  return uint8ArrayToString(randomBytes(16), 'base16')
+}
+
+// Let the other end of a signalling channel know of the supported versions of the signalling protocol
+// if a message from it failed to decode for being in an unsupported version
+// Returns whether that was the case
+export function reportVersionMismatch (signallingChannel: RTCDataChannel, err: any): boolean {
+  if (err?.code !== codes.ERR_UNSUPPORTED_SIGNALLING_VERSION) {
+    return false
+  }
+
+  const mismatch: VersionMismatch = {
+    type: 'VersionMismatch',
+    minVersion: MIN_SIGNALLING_PROTOCOL_VERSION,
+    maxVersion: SIGNALLING_PROTOCOL_VERSION
+  }
+
+  try {
+    signallingChannel.send(encodeSignallingMessage(mismatch))
+  } catch (err: any) {
+    debugLog('version mismatch send failed', err)
+    debugLog('signallingChannel.readyState', signallingChannel.readyState)
+  }
+
+  return true
+}
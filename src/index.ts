@@ -6,23 +6,48 @@ import { fetch } from 'native-fetch'
 import { AbortError } from 'abortable-iterator'
 import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
 import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
-import { Signal, WebRTCInitiator, WebRTCInitiatorInit, WebRTCReceiverInit, WRTC } from '@cerc-io/webrtc-peer'
+import type { Signal, WebRTCInitiatorInit, WebRTCReceiverInit, WRTC } from '@cerc-io/webrtc-peer'
 import { symbol } from '@libp2p/interface-transport'
+import { EventEmitter, CustomEvent } from '@libp2p/interfaces/events'
+import { peerDiscovery } from '@libp2p/interface-peer-discovery'
+import type { PeerDiscovery } from '@libp2p/interface-peer-discovery'
 import type { CreateListenerOptions, DialOptions, Listener, Transport, Upgrader } from '@libp2p/interface-transport'
-import type { Multiaddr } from '@multiformats/multiaddr'
+import type { Startable } from '@libp2p/interfaces/startable'
+import { Multiaddr, multiaddr } from '@multiformats/multiaddr'
 import type { PeerId } from '@libp2p/interface-peer-id'
+import type { Metrics } from '@libp2p/interface-metrics'
 import defer, { DeferredPromise } from 'p-defer'
+import errCode from 'err-code'
+import { randomBytes } from '@libp2p/crypto'
 
-import { CODE_CIRCUIT, CODE_P2P, P2P_WEBRTC_STAR_ID } from './constants.js'
+import { CODE_CIRCUIT, CODE_P2P, JOIN_RESPONSE_TIMEOUT, P2P_WEBRTC_STAR_ID, RELAY_REDIAL_INITIAL_DELAY, RELAY_REDIAL_MAX_DELAY, SIGNALLING_TIMEOUT } from './constants.js'
 import { toMultiaddrConnection } from './socket-to-conn.js'
+import { WebRTCDirectInitiator } from './peer.js'
 import { createListener, WebRTCDirectListener } from './listener.js'
-import { ConnectRequest, JoinRequest, SignallingChannelType, SignallingMessage } from './signal-message.js'
-import { setChannelClosingInterval } from './helpers.js'
+import { ConnectRequest, HTTPSignalRequest, HTTPSignalResponse, IceCandidate, IceServer, JoinResponse, PeerQuery, SignallingChannelType, SignallingMessage } from './signal-message.js'
+import { decodeSignallingMessage, encodeSignallingMessage } from './signal-codec.js'
+import { backoffDelay, createMessageId, reportVersionMismatch, setChannelClosingInterval } from './helpers.js'
+import { codes } from './errors.js'
+import { IceServersProvider, RelayShutdownOptions, SignallingRelay } from './signalling-relay.js'
+import { createJoinRequest, signConnectMessage, verifyConnectMessage } from './signing.js'
+import type { AdmissionLimits } from './admission.js'
+import type { SignallingPolicy } from './policy.js'
+import { createMetrics, WebRTCDirectMetrics } from './metrics.js'
+import { WebRTCDirectDiscovery } from './discovery.js'
+import { NatMapping, ObservedAddr, ObservedAddrs } from './observed-addrs.js'
 
 const log = logger('libp2p:webrtc-direct')
 const debugLog = logger('laconic:webrtc-direct:debug')
 
 export { P2P_WEBRTC_STAR_ID } from './constants.js'
+export { ConnectRejectReason } from './signal-message.js'
+export type { AdmissionLimits } from './admission.js'
+export type { SignallingPolicy, SignallingPolicyRequest } from './policy.js'
+export type { IceServersProvider, RelayShutdownOptions } from './signalling-relay.js'
+export type { WebRTCDirectDiscovery } from './discovery.js'
+export type { ConnectionStats, WebRTCDirectMultiaddrConnection } from './socket-to-conn.js'
+export { NatMapping } from './observed-addrs.js'
+export type { ObservedAddr, ObservedAddrReport } from './observed-addrs.js'
 
 export enum WebRTCDirectNodeType {
   Peer,
@@ -36,28 +61,168 @@ export interface WebRTCDirectInit {
   enableSignalling: boolean
   nodeType?: WebRTCDirectNodeType
   relayPeerId?: String
+  relayPeerIds?: string[]
+  signallingTimeout?: number
+  admissionLimits?: AdmissionLimits
+  signallingPolicy?: SignallingPolicy
+  relayShutdown?: RelayShutdownOptions
+  maxSignallingHops?: number
+  seenCacheCapacity?: number
+  // ICE servers sent to the peers joining this relay node
+  iceServers?: IceServersProvider
+}
+
+interface PendingConnectRequest {
+  // Peer the request was made to
+  dst: string
+  // Signalling channel the request was made over
+  signallingChannel: RTCDataChannel
+  // Resolved with the response signal
+  deferred: DeferredPromise<string>
+}
+
+interface TrickleDial {
+  // Peer being dialled
+  dst: string
+  // Connection to feed the remote ICE candidates into
+  channel: WebRTCDirectInitiator
+}
+
+// Fail a dial if the listener turned away the offer or failed to answer it
+function assertAnswered (url: string, status: number) {
+  if (status === 429 || status === 503) {
+    throw errCode(new Error(`listener at ${url} is overloaded, responded with status ${status}`), codes.ERR_LISTENER_OVERLOADED, { status })
+  }
+
+  if (status === 413) {
+    throw errCode(new Error(`offer too large for listener at ${url}`), codes.ERR_SIGNAL_BODY_TOO_LARGE, { status })
+  }
+
+  if (status < 200 || status >= 300) {
+    throw errCode(new Error(`listener at ${url} failed to answer, responded with status ${status}`), codes.ERR_SIGNAL_REQUEST_FAILED, { status })
+  }
+}
+
+// Whether a POST signal request failed for the listener only taking the signal in the query string
+// (older listeners respond with a plain text 500 on not finding it there)
+function isPostUnsupported (status: number, contentType: string | null): boolean {
+  return status === 404 || status === 405 || (status === 500 && contentType?.startsWith('application/json') !== true)
+}
+
+export interface RelayEventDetail {
+  // Peer id of the primary relay node
+  relayPeerId: string
+}
+
+export interface RelayJoinedEventDetail extends RelayEventDetail {
+  // Multiaddrs the relay node listens on
+  listenAddrs: string[]
+  // Multiaddr the relay node observed the connection to it coming from
+  observedAddr?: string
+}
+
+export interface RelayShutdownEventDetail extends RelayEventDetail {
+  // Multiaddrs of relay nodes suggested by the relay node to join instead
+  alternativeRelays: string[]
+}
+
+export interface SignallingErrorEventDetail {
+  // Peer id of the relay node the signalling channel is to, if known
+  relayPeerId?: string
+  error: Error
+}
+
+export interface WebRTCDirectEvents {
+  // Signalling channel to a primary relay node opened
+  'relay:connected': CustomEvent<RelayEventDetail>
+  // Signalling channel to a primary relay node closed; the peer is not reachable through it
+  'relay:disconnected': CustomEvent<RelayEventDetail>
+  // Joined a primary relay node (the relay node acknowledged the join); the peer is reachable through it
+  'relay:joined': CustomEvent<RelayJoinedEventDetail>
+  // Primary relay node announced that it is shutting down
+  'relay:shutdown': CustomEvent<RelayShutdownEventDetail>
+  'signalling:error': CustomEvent<SignallingErrorEventDetail>
+}
+
+// Signalling state of a primary relay node
+export interface RelaySignallingStatus {
+  peerId: string
+  // Signalling channel to the relay node is open
+  connected: boolean
+  // Joined the relay node over the signalling channel
+  joined: boolean
+}
+
+export interface SignallingStatus {
+  // Reachable by other peers through at least one primary relay node
+  reachable: boolean
+  relays: RelaySignallingStatus[]
 }
 
 export interface WebRTCDirectComponents {
   peerId: PeerId
   upgrader?: Upgrader
+  metrics?: Metrics
 }
 
-class WebRTCDirect implements Transport {
+export class WebRTCDirect extends EventEmitter<WebRTCDirectEvents> implements Transport, Startable {
   private readonly initiatorOptions?: WebRTCInitiatorInit
   private readonly receiverOptions?: WebRTCReceiverInit
   public wrtc?: WRTC
 
   private readonly enableSignalling: boolean
   private readonly nodeType: WebRTCDirectNodeType
-  private readonly relayPeerId?: String
-  private signallingChannel?: RTCDataChannel
-  private peerListener?: WebRTCDirectListener
+  // Peer ids of the primary relay nodes with which signalling channels are to be established
+  private readonly relayPeerIds: string[]
+  // Keep track of open signalling channels to the primary relay nodes by their peer id
+  private readonly signallingChannels: Map<string, RTCDataChannel> = new Map()
+  // Primary relay nodes joined over the signalling channels
+  private readonly joinedRelays: Set<string> = new Set()
+  // Timers failing the joins not yet acknowledged with a JoinResponse, by signalling channel
+  private readonly pendingJoins: Map<RTCDataChannel, ReturnType<typeof setTimeout>> = new Map()
+  private peerListeners: WebRTCDirectListener[] = []
+  // Relay node side of the signalling network shared by all the listeners; set if signalling is enabled
+  private readonly signallingRelay?: SignallingRelay
+
+  // Time (ms) to wait for a response to a ConnectRequest made over the signalling channel
+  private readonly signallingTimeout: number
+  // Limits on incoming offers and connect requests
+  private readonly admissionLimits?: AdmissionLimits
+  // Keep track of ConnectRequests waiting for a response by request id
+  private readonly pendingConnectRequests: Map<string, PendingConnectRequest> = new Map()
+  // Keep track of dials over the signalling channel still accepting ICE candidates by request id
+  private readonly trickleDials: Map<string, TrickleDial> = new Map()
+  // Signalling channels to primary relay nodes that have announced a shutdown; not reopened once closed
+  private readonly shutdownSignallingChannels: WeakSet<RTCDataChannel> = new WeakSet()
+  // Pending redials of primary relay nodes the connection to which was lost, by relay peer id
+  private readonly relayRedials: Map<string, ReturnType<typeof setTimeout>> = new Map()
+  // ICE servers sent by the primary relay nodes on joining, by relay peer id
+  private readonly relayIceServers: Map<string, IceServer[]> = new Map()
+  // Signalling channels over which the joined peers have been queried for discovery
+  private readonly queriedSignallingChannels: WeakSet<RTCDataChannel> = new WeakSet()
+
+  // Addresses of this node reported by the relay nodes and listeners connected to
+  private readonly observedAddrs: ObservedAddrs = new ObservedAddrs()
+
+  // Discovers the peers joined to the primary relay nodes
+  public readonly discovery: WebRTCDirectDiscovery
 
   public peerId?: PeerId
   public upgrader?: Upgrader
+  private readonly metrics?: WebRTCDirectMetrics
+  private started = false
+
+  constructor (init: WebRTCDirectInit, components: WebRTCDirectComponents) {
+    super()
+
+    this.peerId = components.peerId
+    this.upgrader = components.upgrader
+    this.discovery = new WebRTCDirectDiscovery(() => this._queryPeers())
+
+    if (components.metrics != null) {
+      this.metrics = createMetrics(components.metrics, () => this.signallingRelay?.getChannelCounts() ?? {})
+    }
 
-  constructor (init: WebRTCDirectInit) {
     this.initiatorOptions = init?.initiatorOptions
     this.receiverOptions = init?.receiverOptions
     this.wrtc = init?.wrtc
@@ -65,14 +230,32 @@ class WebRTCDirect implements Transport {
     this.enableSignalling = init.enableSignalling
     this.nodeType = init.nodeType ?? WebRTCDirectNodeType.Peer
 
-    this.relayPeerId = init?.relayPeerId
+    this.relayPeerIds = [...(init?.relayPeerIds ?? [])]
+    if (init?.relayPeerId != null && !this.relayPeerIds.includes(init.relayPeerId.toString())) {
+      this.relayPeerIds.unshift(init.relayPeerId.toString())
+    }
+
+    this.signallingTimeout = init?.signallingTimeout ?? SIGNALLING_TIMEOUT
+    this.admissionLimits = init?.admissionLimits
+
+    if (this.enableSignalling) {
+      this.signallingRelay = new SignallingRelay({
+        admissionLimits: init.admissionLimits,
+        policy: init.signallingPolicy,
+        metrics: this.metrics,
+        shutdown: init.relayShutdown,
+        maxHops: init.maxSignallingHops,
+        seenCacheCapacity: init.seenCacheCapacity,
+        iceServers: init.iceServers
+      })
+    }
 
-    // Peer nodes need to set the peer id of the relay node with which the signalling channel is to be established
+    // Peer nodes need to set the peer ids of the relay nodes with which the signalling channels are to be established
     // No need to set in case of relay nodes
     if (
       this.enableSignalling &&
       this.nodeType === WebRTCDirectNodeType.Peer &&
-      this.relayPeerId == null
+      this.relayPeerIds.length === 0
     ) {
       throw new Error('Primary relay peer id not set for peer node')
     }
@@ -86,21 +269,52 @@ class WebRTCDirect implements Transport {
     return '@libp2p/webrtc-direct'
   }
 
+  get [peerDiscovery] (): PeerDiscovery {
+    return this.discovery
+  }
+
+  isStarted () {
+    return this.started
+  }
+
+  async start () {
+    this.started = true
+  }
+
+  async stop () {
+    this.started = false
+
+    // Forget the ICE servers of the relay nodes, their TURN credentials may be short-lived
+    this.relayIceServers.clear()
+  }
+
   async dial (ma: Multiaddr, options: DialOptions) {
-    let socket: WebRTCInitiator
+    let socket: WebRTCDirectInitiator
+
+    // Path taken by the dial for metrics
+    const dialPath = this.enableSignalling && ma.toString().includes(P2P_WEBRTC_STAR_ID) ? 'signalling' : 'http'
+    this.metrics?.dials.increment({ [dialPath]: true })
+    const stopTimer = this.metrics?.dialDuration.timer(dialPath)
+
+    try {
+      if (this.enableSignalling) {
+        socket = await this._dialWithSignallingEnabled(ma, options)
+      } else {
+        // Ensure that dial address doesn't include webrtc-star id
+        if (ma.toString().includes(P2P_WEBRTC_STAR_ID)) {
+          throw new Error('Cannot dial ma containing webrtc-star id if signalling not enabled or relayPeerId not set')
+        }
 
-    if (this.enableSignalling) {
-      socket = await this._dialWithSignallingEnabled(ma, options)
-    } else {
-      // Ensure that dial address doesn't include webrtc-star id
-      if (ma.toString().includes(P2P_WEBRTC_STAR_ID)) {
-        throw new Error('Cannot dial ma containing webrtc-star id if signalling not enabled or relayPeerId not set')
+        // Perform regular dial
+        socket = await this._connect(ma, options)
       }
-
-      // Perform regular dial
-      socket = await this._connect(ma, options)
+    } catch (err: any) {
+      this.metrics?.dialErrors.increment({ [dialPath]: true })
+      throw err
     }
 
+    stopTimer?.()
+
     const maConn = toMultiaddrConnection(socket, { remoteAddr: ma, signal: options.signal })
     log('new outbound connection %s', maConn.remoteAddr)
     const conn = await options.upgrader.upgradeOutbound(maConn)
@@ -121,8 +335,9 @@ class WebRTCDirect implements Transport {
     // (to relay nodes)
     let signallingChannelType: SignallingChannelType
     if (this.nodeType === WebRTCDirectNodeType.Peer) {
-      // Create peer signalling channel if dialling the primary relay node
-      signallingChannelType = (ma.getPeerId() === this.relayPeerId)
+      // Create peer signalling channel if dialling one of the primary relay nodes
+      const relayPeerId = ma.getPeerId()
+      signallingChannelType = (relayPeerId != null && this.relayPeerIds.includes(relayPeerId))
         ? SignallingChannelType.Peer
         : SignallingChannelType.None
     } else {
@@ -134,17 +349,29 @@ class WebRTCDirect implements Transport {
   }
 
   async _dialUsingSignallingChannel (ma: Multiaddr, options: DialOptions) {
-    // Expect relayPeerId to be set
-    assert(this.relayPeerId != null)
+    // Expect relayPeerIds to be set
+    assert(this.relayPeerIds.length > 0)
 
-    // Expect signalling channel to exist and connect using signalling channel
-    if (this.signallingChannel == null) {
-      throw new Error('Signalling channel does not exist to primary relay node')
+    // Expect a signalling channel to exist and connect using signalling channel
+    if (this.signallingChannels.size === 0) {
+      throw new Error('Signalling channel does not exist to any primary relay node')
     }
 
     return await this._connectUsingSignallingChannel(ma, options)
   }
 
+  // Get the joined primary relay node to signal a dial through,
+  // preferring the relay node in the address being dialled
+  // (relay nodes don't route requests from peers that have not joined them)
+  _getSignallingRelayPeerId (relayPeerId?: string | null): string | undefined {
+    if (relayPeerId != null && this.joinedRelays.has(relayPeerId) && this.signallingChannels.has(relayPeerId)) {
+      return relayPeerId
+    }
+
+    // Fall back to any other joined primary relay node
+    return Array.from(this.joinedRelays).find(joinedRelayPeerId => this.signallingChannels.has(joinedRelayPeerId))
+  }
+
   async _connect (ma: Multiaddr, options: DialOptions, signallingChannelType = SignallingChannelType.None) {
     if (options.signal?.aborted === true) {
       throw new AbortError()
@@ -162,13 +389,13 @@ class WebRTCDirect implements Transport {
     }
 
     // eslint-disable-next-line
-    return await new Promise<WebRTCInitiator>(async (resolve, reject) => {
+    return await new Promise<WebRTCDirectInitiator>(async (resolve, reject) => {
       let connected: boolean
 
       const cOpts = ma.toOptions()
       log('Dialing %s:%s', cOpts.host, cOpts.port)
 
-      const channel = new WebRTCInitiator(channelOptions)
+      const channel = new WebRTCDirectInitiator(channelOptions)
 
       // Create a deferred promise on signalling channel
       const deferredSignallingChannel: DeferredPromise<void> = defer()
@@ -177,6 +404,8 @@ class WebRTCDirect implements Transport {
         const err = evt.detail
 
         if (!connected) {
+          this.metrics?.iceFailures.increment()
+
           const msg = `connection error ${cOpts.host}:${cOpts.port}: ${err.message}`
 
           log.error(msg)
@@ -193,6 +422,11 @@ class WebRTCDirect implements Transport {
 
           connected = true
 
+          // Keep up the connection to the primary relay node that the peer listens through
+          if (signallingChannelType === SignallingChannelType.Peer) {
+            channel.addEventListener('close', () => this._redialRelay(ma), { once: true })
+          }
+
           log('connection opened %s:%s', cOpts.host, cOpts.port)
           done()
         })()
@@ -234,8 +468,6 @@ class WebRTCDirect implements Transport {
           return
         }
 
-        const signalStr = JSON.stringify(signal)
-
         let host = cOpts.host
         if (cOpts.family === 6 && !host.startsWith('[')) {
           host = `[${host}]`
@@ -251,23 +483,19 @@ class WebRTCDirect implements Transport {
           url = `http://${host}:${cOpts.port}`
         }
 
-        const path = `/?signal=${base58btc.encode(uint8ArrayFromString(signalStr))}&signalling_channel=${signallingChannelType}`
-        const uri = url + path
-
         try {
-          const res = await fetch(uri)
-          const body = await res.text()
+          const response = await this._fetchAnswer(url, signal, signallingChannelType)
 
-          if (body.trim() === '') {
+          if (response == null) {
             // no response to this signal
             return
           }
 
-          const incSignalBuf = base58btc.decode(body)
-          const incSignalStr = uint8ArrayToString(incSignalBuf)
-          const incSignal = JSON.parse(incSignalStr)
+          if (response.observedAddr != null) {
+            this._addObservedAddr(ma.getPeerId() ?? url, response.observedAddr)
+          }
 
-          channel.handleSignal(incSignal)
+          channel.handleSignal(response.signal)
         } catch (err: any) {
           await channel.close(err)
           reject(err)
@@ -289,7 +517,7 @@ class WebRTCDirect implements Transport {
           // (signalling is enabled;
           //  dialling to the primary relay node from a peer node or
           //  dialling to a relay node from another relay node)
-          await this._registerSignallingChannelHandler(channel, deferredSignallingChannel, signallingChannelType)
+          await this._registerSignallingChannelHandler(channel, deferredSignallingChannel, signallingChannelType, ma)
 
           // Create signalling channel after handlers have been registered
           this._createSignallingChannel(channel)
@@ -305,26 +533,46 @@ class WebRTCDirect implements Transport {
     })
   }
 
-  _createSignallingChannel (channel: WebRTCInitiator) {
+  _createSignallingChannel (channel: WebRTCDirectInitiator) {
     if (!channel.closed) {
       log('opening a new signalling channel')
       channel.createSignallingChannel()
     }
   }
 
-  async _registerSignallingChannelHandler (channel: WebRTCInitiator, deferredSignallingChannel: DeferredPromise<void>, type: SignallingChannelType) {
+  async _registerSignallingChannelHandler (channel: WebRTCDirectInitiator, deferredSignallingChannel: DeferredPromise<void>, type: SignallingChannelType, relayAddr: Multiaddr) {
+    const relayPeerId = relayAddr.getPeerId()
+
     const handleSignallingChannel = (evt: CustomEvent<RTCDataChannel>) => {
       const signallingChannel = evt.detail
 
       const channelClosedHandler = () => {
         log('signalling channel closed')
+        this._clearPendingJoin(signallingChannel)
+
+        // Unset the signalling channel to this relay node
+        if (relayPeerId != null && this.signallingChannels.get(relayPeerId) === signallingChannel) {
+          this.signallingChannels.delete(relayPeerId)
+          this.joinedRelays.delete(relayPeerId)
+          this.relayIceServers.delete(relayPeerId)
+          this.dispatchEvent(new CustomEvent<RelayEventDetail>('relay:disconnected', { detail: { relayPeerId } }))
+        }
 
-        // Unset the signalling channel for this peer
-        this.signallingChannel = undefined
+        // Fail the requests waiting for a response over this signalling channel
+        this.pendingConnectRequests.forEach(({ deferred, signallingChannel: requestSignallingChannel }) => {
+          if (requestSignallingChannel === signallingChannel) {
+            deferred.reject(errCode(new Error('signalling channel closed'), codes.ERR_SIGNALLING_CHANNEL_CLOSED))
+          }
+        })
 
-        // Deregister this signalling channel from the listener
-        if ((this.peerListener) != null) {
-          this.peerListener.deRegisterSignallingChannel()
+        // Deregister this signalling channel from the listeners
+        this.peerListeners.forEach(listener => {
+          listener.deRegisterSignallingChannel(relayPeerId)
+        })
+
+        // The relay node is going away, don't join it again
+        if (this.shutdownSignallingChannels.has(signallingChannel)) {
+          return
         }
 
         // Open a new signalling channel if peer connection still exists
@@ -343,33 +591,31 @@ class WebRTCDirect implements Transport {
           channelClosedHandler()
         }, { once: true })
 
-        // Register signalling channel with the listener
-        // (this.peerListener is set in this.createListener which is called for the provided listen address)
-        // (only single listen address supported for now)
-        if ((this.peerListener) != null) {
-          this.peerListener.registerSignallingChannel(signallingChannel)
+        // For signalling channels from relay to relay nodes
+        if (type === SignallingChannelType.Relay) {
+          // Register signalling channel with the signalling relay shared by the listeners
+          // (need to keep track to be able to forward signalling messages to connected relay peers)
+          assert(this.signallingRelay)
+          assert(this.peerId)
+          this.signallingRelay.registerSignallingChannel(signallingChannel, relayPeerId, this.peerId)
         }
 
         // For signalling channels from peer to relay nodes
         if (type === SignallingChannelType.Peer) {
-          // Set the signalling channel for this peer
-          this.signallingChannel = signallingChannel
-
-          // Send a JoinRequest message when it opens
-          assert(this.peerId)
-          const request: JoinRequest = {
-            type: 'JoinRequest',
-            peerId: this.peerId.toString()
-          }
+          // Register signalling channel with the listener listening through this relay node
+          // (this.peerListeners are added to in this.createListener which is called for the provided listen addresses)
+          this.peerListeners.forEach(listener => {
+            listener.registerSignallingChannel(signallingChannel, relayPeerId)
+          })
 
-          const msg = uint8ArrayFromString(JSON.stringify(request))
+          // Set the signalling channel to this relay node
+          assert(relayPeerId)
+          this.signallingChannels.set(relayPeerId, signallingChannel)
+          this.dispatchEvent(new CustomEvent<RelayEventDetail>('relay:connected', { detail: { relayPeerId } }))
 
-          try {
-            signallingChannel.send(msg)
-          } catch (err: any) {
-            debugLog('_registerSignallingChannelHandler signalling channel send failed', err)
-            debugLog('signallingChannel.readyState', signallingChannel.readyState)
-          }
+          // Handle the join challenge and responses to connect requests made over the signalling channel
+          // (JoinRequest is sent in response to the JoinChallenge from the relay node)
+          signallingChannel.addEventListener('message', (evt) => this._handleSignallingChannelMessage(signallingChannel, relayAddr, evt))
         }
 
         // Resolve deferredSignallingChannel promise
@@ -387,6 +633,7 @@ class WebRTCDirect implements Transport {
         const err = evt.error instanceof Error ? evt.error : new Error(`signalling channel error: ${evt.error?.message} ${evt.error?.errorDetail}`)
 
         log.error('signalling channel error', err)
+        this.dispatchEvent(new CustomEvent<SignallingErrorEventDetail>('signalling:error', { detail: { relayPeerId: relayPeerId ?? undefined, error: err } }))
 
         // Open a new signalling channel if peer connection still exists
         this._createSignallingChannel(channel)
@@ -396,6 +643,53 @@ class WebRTCDirect implements Transport {
     channel.addEventListener('signalling-channel', handleSignallingChannel)
   }
 
+  // Send an offer to the HTTP signalling endpoint of a listener and return the answer
+  // Prefers a POST request with a JSON body; falls back to the query string form for listeners that don't support it
+  async _fetchAnswer (url: string, signal: Signal, signallingChannelType: SignallingChannelType): Promise<HTTPSignalResponse | undefined> {
+    const request: HTTPSignalRequest = {
+      signal,
+      signallingChannel: signallingChannelType
+    }
+
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    })
+
+    if (res.ok) {
+      const body = await res.text()
+
+      if (body.trim() === '') {
+        return
+      }
+
+      const response: HTTPSignalResponse = JSON.parse(body)
+      return response
+    }
+
+    // Only retry with GET for listeners that don't take POST requests,
+    // the offer may have been handled by the listener otherwise
+    if (!isPostUnsupported(res.status, res.headers.get('Content-Type'))) {
+      assertAnswered(url, res.status)
+    }
+
+    debugLog('POST signal request to %s failed with status %d, retrying with GET', url, res.status)
+
+    const path = `/?signal=${base58btc.encode(uint8ArrayFromString(JSON.stringify(signal)))}&signalling_channel=${signallingChannelType}`
+    const getRes = await fetch(url + path)
+    assertAnswered(url, getRes.status)
+
+    const body = await getRes.text()
+
+    if (body.trim() === '') {
+      return
+    }
+
+    const incSignalBuf = base58btc.decode(body)
+    return { signal: JSON.parse(uint8ArrayToString(incSignalBuf)) }
+  }
+
   async _connectUsingSignallingChannel (ma: Multiaddr, options: DialOptions) {
     assert(this.peerId)
     const peerId = this.peerId
@@ -404,9 +698,10 @@ class WebRTCDirect implements Transport {
       throw new AbortError()
     }
 
+    // Trickle ICE candidates over the signalling channel instead of waiting for gathering to complete
     const channelOptions = {
       initiator: true,
-      trickle: false,
+      trickle: true,
       ...this.initiatorOptions
     }
 
@@ -415,21 +710,38 @@ class WebRTCDirect implements Transport {
       channelOptions.wrtc = this.wrtc
     }
 
-    return await new Promise<WebRTCInitiator>((resolve, reject) => {
+    return await new Promise<WebRTCDirectInitiator>((resolve, reject) => {
       let connected: boolean
+      const requestId = uint8ArrayToString(randomBytes(16), 'base16')
 
       const dstPeerId = ma.getPeerId()
       if (dstPeerId === null) {
         throw new AbortError('Peer Id missing from multiaddr to dial')
       }
+
+      // Signal through the relay node in the address being dialled (/…/p2p/<relay>/p2p-webrtc-star/p2p/<peer>) if joined
+      const signallingRelayPeerId = this._getSignallingRelayPeerId(ma.decapsulateCode(CODE_P2P).getPeerId())
       log('Dialing peer %s', dstPeerId)
 
-      const channel = new WebRTCInitiator(channelOptions)
+      // Use the ICE servers provided by the relay node signalled through
+      const iceServers = signallingRelayPeerId != null ? this.relayIceServers.get(signallingRelayPeerId) : undefined
+      if (iceServers != null) {
+        channelOptions.peerConnectionConfig = { ...channelOptions.peerConnectionConfig, iceServers }
+      }
+
+      const channel = new WebRTCDirectInitiator(channelOptions)
+      this.trickleDials.set(requestId, { dst: dstPeerId, channel })
+
+      // Signalling channel the offer was sent over; candidates gathered before that are queued
+      let signallingChannel: RTCDataChannel | undefined
+      const queuedCandidates: Signal[] = []
 
       const onError = (evt: CustomEvent<Error>) => {
         const err = evt.detail
 
         if (!connected) {
+          this.metrics?.iceFailures.increment()
+
           const msg = `connection error ${dstPeerId}: ${err.message}`
 
           log.error(msg)
@@ -456,6 +768,7 @@ class WebRTCDirect implements Transport {
         channel.removeEventListener('error', onError)
         channel.removeEventListener('ready', onReady)
         options.signal?.removeEventListener('abort', onAbort)
+        this.trickleDials.delete(requestId)
 
         if (err != null) {
           reject(err)
@@ -475,61 +788,73 @@ class WebRTCDirect implements Transport {
       })
       options.signal?.addEventListener('abort', onAbort)
 
+      const sendCandidate = (signallingChannel: RTCDataChannel, signal: Signal) => {
+        const candidate: IceCandidate = {
+          type: 'IceCandidate',
+          requestId,
+          src: peerId.toString(),
+          dst: dstPeerId,
+          signal: JSON.stringify(signal),
+          messageId: createMessageId()
+        }
+
+        try {
+          signallingChannel.send(encodeSignallingMessage(candidate))
+        } catch (err: any) {
+          debugLog('_connectUsingSignallingChannel signalling channel send failed', err)
+          debugLog('signallingChannel.readyState', signallingChannel.readyState)
+        }
+      }
+
       const onSignal = async (signal: Signal) => {
+        if (signal.type === 'candidate') {
+          // Trickle the candidate if the offer has already been sent
+          if (signallingChannel == null) {
+            queuedCandidates.push(signal)
+          } else {
+            sendCandidate(signallingChannel, signal)
+          }
+
+          return
+        }
+
         if (signal.type !== 'offer') {
-          // skip candidates, just send the offer as it includes the candidates
           return
         }
 
         const signalStr = JSON.stringify(signal)
 
-        assert(this.signallingChannel)
-        const signallingChannel = this.signallingChannel
-
         try {
-          // Create a connection request with signal string and send over signalling channel
-          const request: ConnectRequest = {
+          const offerSignallingChannel = signallingRelayPeerId != null ? this.signallingChannels.get(signallingRelayPeerId) : undefined
+          if (offerSignallingChannel == null) {
+            throw errCode(new Error('Signalling channel does not exist to any joined primary relay node'), codes.ERR_SIGNALLING_CHANNEL_CLOSED)
+          }
+
+          // Create a signed connection request with signal string and send over signalling channel
+          const request = await signConnectMessage<ConnectRequest>(peerId, {
             type: 'ConnectRequest',
+            requestId,
             src: peerId.toString(),
             dst: dstPeerId,
-            signal: signalStr
-          }
+            signal: signalStr,
+            messageId: createMessageId()
+          })
+
+          // The request is sent right away, the response is awaited below
+          const response = this._sendConnectRequest(offerSignallingChannel, request, options)
+
+          // Send the candidates gathered before the offer along the same path
+          signallingChannel = offerSignallingChannel
+          queuedCandidates.splice(0).forEach(candidate => sendCandidate(offerSignallingChannel, candidate))
 
           // Wait for response message over the signalling channel
-          const responseSignalJson = await new Promise<string>((resolve, reject) => {
-            const onMessage = (evt: MessageEvent) => {
-              try {
-                const msgUint8Array = new Uint8Array(evt.data)
-                const msg: SignallingMessage = JSON.parse(uint8ArrayToString(msgUint8Array))
-
-                if (
-                  msg.type === 'ConnectResponse' &&
-                  msg.src === dstPeerId &&
-                  msg.dst === peerId.toString()
-                ) {
-                  // Remove this handler after receiving the response
-                  signallingChannel.removeEventListener('message', onMessage)
-                  resolve(msg.signal)
-                }
-              } catch (err) {
-                reject(err)
-              }
-            }
-            signallingChannel.addEventListener('message', onMessage)
-
-            try {
-              signallingChannel.send(uint8ArrayFromString(JSON.stringify(request)))
-            } catch (err: any) {
-              debugLog('_connectUsingSignallingChannel signalling channel send failed', err)
-              debugLog('signallingChannel.readyState', signallingChannel.readyState)
-            }
-          })
+          const responseSignalJson = await response
 
           const responseSignal = JSON.parse(responseSignalJson)
           channel.handleSignal(responseSignal)
         } catch (err: any) {
           await channel.close(err)
-          reject(err)
+          done(err)
         }
       }
 
@@ -543,20 +868,337 @@ class WebRTCDirect implements Transport {
     })
   }
 
+  async _sendConnectRequest (signallingChannel: RTCDataChannel, request: ConnectRequest, options: DialOptions): Promise<string> {
+    const deferred: DeferredPromise<string> = defer()
+    this.pendingConnectRequests.set(request.requestId, { dst: request.dst, signallingChannel, deferred })
+
+    const timeout = setTimeout(() => {
+      deferred.reject(errCode(new Error(`timed out waiting for response from ${request.dst}`), codes.ERR_SIGNALLING_TIMEOUT))
+    }, this.signallingTimeout)
+
+    const onAbort = () => {
+      deferred.reject(new AbortError())
+    }
+    options.signal?.addEventListener('abort', onAbort)
+
+    try {
+      try {
+        signallingChannel.send(encodeSignallingMessage(request))
+      } catch (err: any) {
+        debugLog('_sendConnectRequest signalling channel send failed', err)
+        debugLog('signallingChannel.readyState', signallingChannel.readyState)
+        throw err
+      }
+
+      return await deferred.promise
+    } finally {
+      // Untrack the request once it has been settled
+      clearTimeout(timeout)
+      options.signal?.removeEventListener('abort', onAbort)
+      this.pendingConnectRequests.delete(request.requestId)
+    }
+  }
+
+  _handleSignallingChannelMessage (signallingChannel: RTCDataChannel, relayAddr: Multiaddr, evt: MessageEvent) {
+    let msg: SignallingMessage
+    const relayPeerId = relayAddr.getPeerId() ?? undefined
+
+    try {
+      msg = decodeSignallingMessage(new Uint8Array(evt.data))
+    } catch (err: any) {
+      log.error('invalid message over signalling channel', err)
+
+      // Let both ends know that the relay node speaks another version of the signalling protocol
+      if (reportVersionMismatch(signallingChannel, err)) {
+        this.dispatchEvent(new CustomEvent<SignallingErrorEventDetail>('signalling:error', { detail: { relayPeerId, error: err } }))
+      }
+      return
+    }
+
+    if (msg.type === 'VersionMismatch') {
+      const err = errCode(new Error(`relay node speaks signalling protocol versions ${msg.minVersion} to ${msg.maxVersion}`), codes.ERR_UNSUPPORTED_SIGNALLING_VERSION, { minVersion: msg.minVersion, maxVersion: msg.maxVersion })
+      log.error(err.message)
+      this.dispatchEvent(new CustomEvent<SignallingErrorEventDetail>('signalling:error', { detail: { relayPeerId, error: err } }))
+      return
+    }
+
+    if (msg.type === 'JoinChallenge') {
+      void this._sendJoinRequest(signallingChannel, relayPeerId, msg.nonce).catch(err => {
+        log.error('failed to join relay node', err)
+        this.dispatchEvent(new CustomEvent<SignallingErrorEventDetail>('signalling:error', { detail: { relayPeerId, error: err } }))
+      })
+      return
+    }
+
+    if (msg.type === 'JoinResponse') {
+      this._handleJoinResponse(signallingChannel, relayPeerId, msg)
+      return
+    }
+
+    if (msg.type === 'PeerList') {
+      this.discovery.handlePeerList(relayAddr, msg)
+      return
+    }
+
+    if (msg.type === 'IceServers') {
+      if (relayPeerId != null) {
+        this.relayIceServers.set(relayPeerId, msg.servers)
+      }
+      return
+    }
+
+    if (msg.type === 'RelayShutdown') {
+      // Leave the relay node so that dials go through the remaining primary relay nodes
+      // and the listener through it stops announcing its address
+      log('primary relay node shutting down, alternative relays: %o', msg.alternativeRelays)
+      this.shutdownSignallingChannels.add(signallingChannel)
+      signallingChannel.close()
+
+      if (relayPeerId != null) {
+        this.dispatchEvent(new CustomEvent<RelayShutdownEventDetail>('relay:shutdown', { detail: { relayPeerId, alternativeRelays: msg.alternativeRelays } }))
+      }
+      return
+    }
+
+    if (msg.type === 'IceCandidate') {
+      // Feed candidates trickled by the dialled peer into the connection
+      const trickleDial = this.trickleDials.get(msg.requestId)
+      if (trickleDial == null || trickleDial.dst !== msg.src) {
+        return
+      }
+
+      trickleDial.channel.handleSignal(JSON.parse(msg.signal))
+      return
+    }
+
+    if (msg.type !== 'ConnectResponse' && msg.type !== 'ConnectReject') {
+      return
+    }
+
+    // Ignore responses to requests that have already been settled or were not sent to the responding peer
+    const pendingRequest = this.pendingConnectRequests.get(msg.requestId)
+    if (pendingRequest == null || pendingRequest.dst !== msg.src) {
+      return
+    }
+
+    if (msg.type === 'ConnectReject') {
+      // Fail the dial if a relay node rejects the connect request
+      pendingRequest.deferred.reject(errCode(new Error(`connect request to ${msg.src} rejected: ${msg.reason}`), codes.ERR_CONNECT_REJECTED, { reason: msg.reason }))
+      return
+    }
+
+    // Fail the dial if the response was not signed by the dialled peer or was tampered with on the way
+    const response = msg
+    void verifyConnectMessage(response).then(valid => {
+      if (!valid) {
+        pendingRequest.deferred.reject(errCode(new Error(`invalid signature on connect response from ${response.src}`), codes.ERR_INVALID_SIGNATURE))
+        return
+      }
+
+      pendingRequest.deferred.resolve(response.signal)
+    }).catch(err => {
+      pendingRequest.deferred.reject(err)
+    })
+  }
+
+  // Join the relay node by signing its challenge with the private key of this peer
+  async _sendJoinRequest (signallingChannel: RTCDataChannel, relayPeerId: string | undefined, nonce: Uint8Array) {
+    assert(this.peerId)
+    const request = await createJoinRequest(this.peerId, nonce)
+
+    try {
+      signallingChannel.send(encodeSignallingMessage(request))
+    } catch (err: any) {
+      debugLog('_sendJoinRequest signalling channel send failed', err)
+      debugLog('signallingChannel.readyState', signallingChannel.readyState)
+      throw err
+    }
+
+    // Report the join as failed if the relay node doesn't acknowledge it in time
+    this._clearPendingJoin(signallingChannel)
+    this.pendingJoins.set(signallingChannel, setTimeout(() => {
+      this.pendingJoins.delete(signallingChannel)
+
+      const err = errCode(new Error(`timed out waiting for relay node ${relayPeerId ?? ''} to acknowledge the join`), codes.ERR_JOIN_TIMEOUT)
+      log.error(err.message)
+      this.dispatchEvent(new CustomEvent<SignallingErrorEventDetail>('signalling:error', { detail: { relayPeerId, error: err } }))
+    }, JOIN_RESPONSE_TIMEOUT))
+  }
+
+  _clearPendingJoin (signallingChannel: RTCDataChannel) {
+    clearTimeout(this.pendingJoins.get(signallingChannel))
+    this.pendingJoins.delete(signallingChannel)
+  }
+
+  /**
+   * Signalling state of the primary relay nodes, ie. whether this peer is reachable through them
+   */
+  getSignallingStatus (): SignallingStatus {
+    const relays = this.relayPeerIds.map(peerId => ({
+      peerId,
+      connected: this.signallingChannels.has(peerId),
+      joined: this.joinedRelays.has(peerId)
+    }))
+
+    return {
+      reachable: relays.some(relay => relay.joined),
+      relays
+    }
+  }
+
+  /**
+   * Addresses of this node observed by the relay nodes and listeners connected to,
+   * the ones reported by the most of them first
+   */
+  getObservedAddrs (): ObservedAddr[] {
+    return this.observedAddrs.getAddrs()
+  }
+
+  /**
+   * Kind of NAT mapping this node is behind, inferred from the observed addresses
+   */
+  getNatMapping (): NatMapping {
+    return this.observedAddrs.getNatMapping()
+  }
+
+  _addObservedAddr (reporter: string, addr: string) {
+    try {
+      this.observedAddrs.add(reporter, multiaddr(addr))
+      debugLog('%s observed this node at %s', reporter, addr)
+    } catch (err: any) {
+      debugLog('ignoring invalid observed address %s from %s', addr, reporter)
+    }
+  }
+
+  // Redial a primary relay node after losing the connection to it, backing off exponentially between attempts,
+  // for as long as a listener listens through it
+  // (the listener becomes active again once the signalling channel over the new connection opens)
+  _redialRelay (ma: Multiaddr) {
+    const relayPeerId = ma.getPeerId()
+    if (relayPeerId == null || this.relayRedials.has(relayPeerId)) {
+      return
+    }
+
+    const scheduleRedial = (attempt: number) => {
+      const redial = () => {
+        this.relayRedials.delete(relayPeerId)
+
+        if (!this._isListeningThrough(relayPeerId) || this.signallingChannels.has(relayPeerId)) {
+          return
+        }
+
+        if (this.upgrader == null) {
+          log.error('cannot redial primary relay node %s without an upgrader', relayPeerId)
+          return
+        }
+
+        log('redialling primary relay node %s, attempt %d', relayPeerId, attempt + 1)
+        this.dial(ma, { upgrader: this.upgrader }).catch(err => {
+          log.error('failed to redial primary relay node %s', relayPeerId, err)
+          scheduleRedial(attempt + 1)
+        })
+      }
+
+      this.relayRedials.set(relayPeerId, setTimeout(redial, backoffDelay(attempt, RELAY_REDIAL_INITIAL_DELAY, RELAY_REDIAL_MAX_DELAY)))
+    }
+
+    scheduleRedial(0)
+  }
+
+  _isListeningThrough (relayPeerId: string): boolean {
+    return this.peerListeners.some(listener => listener.listensThrough(relayPeerId))
+  }
+
+  // Cancel the pending redials to relay nodes that are no longer listened through
+  _cancelRelayRedials () {
+    this.relayRedials.forEach((timeout, relayPeerId) => {
+      if (!this._isListeningThrough(relayPeerId)) {
+        clearTimeout(timeout)
+        this.relayRedials.delete(relayPeerId)
+      }
+    })
+  }
+
+  // Query the joined primary relay nodes for their peers, subscribing to the peers joining later
+  // Mark a primary relay node as joined once it acknowledges the join
+  _handleJoinResponse (signallingChannel: RTCDataChannel, relayPeerId: string | undefined, response: JoinResponse) {
+    this._clearPendingJoin(signallingChannel)
+
+    if (!response.accepted) {
+      const err = errCode(new Error(`relay node ${relayPeerId ?? ''} rejected the join`), codes.ERR_JOIN_REJECTED)
+      log.error(err.message)
+      this.dispatchEvent(new CustomEvent<SignallingErrorEventDetail>('signalling:error', { detail: { relayPeerId, error: err } }))
+      return
+    }
+
+    if (relayPeerId != null && response.observedAddr != null) {
+      this._addObservedAddr(relayPeerId, response.observedAddr)
+    }
+
+    if (relayPeerId != null) {
+      this.joinedRelays.add(relayPeerId)
+      this.dispatchEvent(new CustomEvent<RelayJoinedEventDetail>('relay:joined', {
+        detail: { relayPeerId, listenAddrs: response.listenAddrs, observedAddr: response.observedAddr }
+      }))
+    }
+
+    // Discover the peers joined to the relay node
+    if (this.discovery.isStarted()) {
+      this._sendPeerQuery(signallingChannel)
+    }
+  }
+
+  _queryPeers () {
+    this.signallingChannels.forEach(signallingChannel => this._sendPeerQuery(signallingChannel))
+  }
+
+  _sendPeerQuery (signallingChannel: RTCDataChannel) {
+    if (this.queriedSignallingChannels.has(signallingChannel)) {
+      return
+    }
+    this.queriedSignallingChannels.add(signallingChannel)
+
+    const query: PeerQuery = {
+      type: 'PeerQuery',
+      subscribe: true
+    }
+
+    try {
+      signallingChannel.send(encodeSignallingMessage(query))
+    } catch (err: any) {
+      debugLog('_sendPeerQuery signalling channel send failed', err)
+      debugLog('signallingChannel.readyState', signallingChannel.readyState)
+    }
+  }
+
   /**
    * Creates a WebrtcDirect listener. The provided `handler` function will be called
    * anytime a new incoming Connection has been successfully upgraded via
    * `upgrader.upgradeInbound`.
    */
   createListener (options: CreateListenerOptions): Listener {
-    this.peerListener = createListener({
+    const listener = createListener({
       ...options,
       receiverOptions: this.receiverOptions,
       wrtc: this.wrtc,
-      signallingEnabled: this.enableSignalling
+      signallingEnabled: this.enableSignalling,
+      signallingRelay: this.signallingRelay,
+      peerId: this.peerId,
+      admissionLimits: this.admissionLimits,
+      metrics: this.metrics
     })
 
-    return this.peerListener
+    this.peerListeners.push(listener)
+    listener.addEventListener('close', () => {
+      // Listeners also emit 'close' on losing the signalling channel, only untrack the ones closed for good
+      if (listener.isClosed()) {
+        this.peerListeners = this.peerListeners.filter(l => l !== listener)
+      }
+
+      this._cancelRelayRedials()
+    })
+
+    return listener
   }
 
   /**
@@ -582,9 +1224,10 @@ class WebRTCDirect implements Transport {
 
         // Match with webrtc-direct for listen addresses (/ip4/0.0.0.0/tcp/9090/http/p2p-webrtc-direct)
         if (mafmt.WebRTCDirect.matches(ma.decapsulateCode(CODE_P2P))) {
-          // Ensure that the peer id in the listening multiaddr matches the primary relay peer id
-          // i.e. Can only listen through connection to primary relay node
-          return ma.getPeerId() === this.relayPeerId
+          // Ensure that the peer id in the listening multiaddr matches one of the primary relay peer ids
+          // i.e. Can only listen through connection to a primary relay node
+          const relayPeerId = ma.getPeerId()
+          return relayPeerId != null && this.relayPeerIds.includes(relayPeerId)
         }
 
         // Decapsulate and then perform the webrtc-direct match for peer addresses
@@ -600,12 +1243,9 @@ class WebRTCDirect implements Transport {
   }
 }
 
-export function webRTCDirect (init: WebRTCDirectInit = { enableSignalling: false }): (components: WebRTCDirectComponents) => Transport {
+// The discovery of the peers joined to the primary relay nodes is exposed by the transport through peerDiscovery
+export function webRTCDirect (init: WebRTCDirectInit = { enableSignalling: false }): (components: WebRTCDirectComponents) => WebRTCDirect {
   return (components: WebRTCDirectComponents) => {
-    const transport = new WebRTCDirect(init)
-    transport.peerId = components.peerId
-    transport.upgrader = components.upgrader
-
-    return transport
+    return new WebRTCDirect(init, components)
   }
 }
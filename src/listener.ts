@@ -4,38 +4,58 @@ import type { MultiaddrConnection, Connection } from '@libp2p/interface-connecti
 import type { Listener, CreateListenerOptions, ConnectionHandler, ListenerEvents, Upgrader } from '@libp2p/interface-transport'
 import type { WebRTCReceiverInit, WRTC } from '@cerc-io/webrtc-peer'
 import type { Multiaddr } from '@multiformats/multiaddr'
+import type { PeerId } from '@libp2p/interface-peer-id'
 import errCode from 'err-code'
 import { pEvent } from 'p-event'
 
 import { P2P_WEBRTC_STAR_ID } from './constants.js'
 import { WebRTCDirectSigServer, WebRTCDirectServer } from './server.js'
+import type { SignallingRelay } from './signalling-relay.js'
+import type { AdmissionLimits } from './admission.js'
+import type { WebRTCDirectMetrics } from './metrics.js'
 
 const log = logger('libp2p:webrtc-direct:listener')
 
-interface WebRTCDirectListenerOptions extends CreateListenerOptions {
+export interface WebRTCDirectListenerOptions extends CreateListenerOptions {
   receiverOptions?: WebRTCReceiverInit
   wrtc?: WRTC
   signallingEnabled: boolean
+  signallingRelay?: SignallingRelay
+  peerId?: PeerId
+  admissionLimits?: AdmissionLimits
+  metrics?: WebRTCDirectMetrics
 }
 
 export class WebRTCDirectListener extends EventEmitter<ListenerEvents> implements Listener {
   server?: WebRTCDirectServer | WebRTCDirectSigServer
 
   private multiaddr?: Multiaddr
+  // Peer id of the relay node through which this listener listens using a signalling channel
+  private relayPeerId?: string
   private readonly wrtc?: WRTC
   private readonly receiverOptions?: WebRTCReceiverInit
   private readonly handler?: ConnectionHandler
   private readonly upgrader: Upgrader
   private readonly signallingEnabled: boolean
-
-  constructor (upgrader: Upgrader, signallingEnabled: boolean, wrtc?: WRTC, receiverOptions?: WebRTCReceiverInit, handler?: ConnectionHandler) {
+  private readonly signallingRelay?: SignallingRelay
+  // Peer id of this node
+  private readonly peerId?: PeerId
+  private readonly admissionLimits?: AdmissionLimits
+  private readonly metrics?: WebRTCDirectMetrics
+  private closed = false
+
+  constructor (options: WebRTCDirectListenerOptions) {
     super()
 
-    this.upgrader = upgrader
-    this.wrtc = wrtc
-    this.receiverOptions = receiverOptions
-    this.handler = handler
-    this.signallingEnabled = signallingEnabled
+    this.upgrader = options.upgrader
+    this.wrtc = options.wrtc
+    this.receiverOptions = options.receiverOptions
+    this.handler = options.handler
+    this.signallingEnabled = options.signallingEnabled
+    this.signallingRelay = options.signallingRelay
+    this.peerId = options.peerId
+    this.admissionLimits = options.admissionLimits
+    this.metrics = options.metrics
   }
 
   async listen (multiaddr: Multiaddr) {
@@ -53,15 +73,26 @@ export class WebRTCDirectListener extends EventEmitter<ListenerEvents> implement
     // Peer nodes use a multiaddr containing webrtc-star id to listen using a signalling channel
     // If signalling is enabled and listen multiaddr contains webrtc-star id, use WebRTCDirectSigServer
     if (this.signallingEnabled && multiaddr.toString().includes(P2P_WEBRTC_STAR_ID)) {
-      this.server = new WebRTCDirectSigServer(multiaddr, this.wrtc, this.receiverOptions)
+      if (this.peerId == null) {
+        throw errCode(new Error('peer id required to listen through a signalling channel'), 'ERR_PEER_ID_MISSING')
+      }
+
+      this.relayPeerId = multiaddr.getPeerId() ?? undefined
+      this.server = new WebRTCDirectSigServer(multiaddr, this.peerId, this.wrtc, this.receiverOptions, this.metrics)
       this.server.addEventListener('listening', disPatchListeningEvent)
+
+      // Report a join through the relay node that was rejected or not acknowledged in time
+      this.server.addEventListener('error', (evt) => {
+        log.error('failed to listen through the relay node', evt.detail)
+        this.dispatchEvent(new CustomEvent<Error>('error', { detail: evt.detail }))
+      })
     } else {
-      this.server = new WebRTCDirectServer(multiaddr, this.signallingEnabled, this.wrtc, this.receiverOptions)
+      this.server = new WebRTCDirectServer(multiaddr, this.signallingRelay, this.wrtc, this.receiverOptions, this.admissionLimits, this.metrics)
       this.server.addEventListener('listening', disPatchListeningEvent)
 
       // Wait for listening event in case of WebRTCDirectServer (listening on host:port)
       // In case of WebRTCDirectSigServer (listening through signalling channel),
-      // the listening event is fired later on server initialization (peer has a signalling channel opened)
+      // the listening event is fired later once the relay node acknowledges the join over the signalling channel
       await pEvent(this.server, 'listening')
     }
 
@@ -81,6 +112,15 @@ export class WebRTCDirectListener extends EventEmitter<ListenerEvents> implement
       log.error('inbound connection failed to upgrade', err)
       return await maConn.close()
     }
+
+    // Connections signalled through a relay node are from the peer in the ConnectRequest,
+    // reject them if the encrypted handshake authenticated another peer
+    const expectedPeerId = maConn.remoteAddr.getPeerId()
+    if (expectedPeerId != null && connection.remotePeer.toString() !== expectedPeerId) {
+      log.error('rejecting inbound connection from %s, expected %s', connection.remotePeer, expectedPeerId)
+      return await connection.close()
+    }
+
     log('inbound connection %s upgraded', maConn.remoteAddr)
 
     if (this.handler != null) {
@@ -91,6 +131,8 @@ export class WebRTCDirectListener extends EventEmitter<ListenerEvents> implement
   }
 
   async close () {
+    this.closed = true
+
     if (this.server != null) {
       await this.server.close()
     }
@@ -98,12 +140,21 @@ export class WebRTCDirectListener extends EventEmitter<ListenerEvents> implement
     this.dispatchEvent(new CustomEvent('close'))
   }
 
-  registerSignallingChannel (signallingChannel: RTCDataChannel) {
-    this.server?.registerSignallingChannel(signallingChannel)
+  isClosed (): boolean {
+    return this.closed
   }
 
-  deRegisterSignallingChannel () {
-    if (!(this.server instanceof WebRTCDirectSigServer)) {
+  registerSignallingChannel (signallingChannel: RTCDataChannel, relayPeerId: string | null) {
+    // Listen only through the signalling channel to the relay node in the listen multiaddr
+    if (this.closed || !(this.server instanceof WebRTCDirectSigServer) || relayPeerId !== this.relayPeerId) {
+      return
+    }
+
+    this.server.registerSignallingChannel(signallingChannel)
+  }
+
+  deRegisterSignallingChannel (relayPeerId: string | null) {
+    if (this.closed || !(this.server instanceof WebRTCDirectSigServer) || relayPeerId !== this.relayPeerId) {
       return
     }
 
@@ -115,6 +166,11 @@ export class WebRTCDirectListener extends EventEmitter<ListenerEvents> implement
     this.dispatchEvent(new CustomEvent('close'))
   }
 
+  // Whether this listener listens (or is waiting to listen again) through a signalling channel to the given relay node
+  listensThrough (relayPeerId: string): boolean {
+    return !this.closed && this.server instanceof WebRTCDirectSigServer && this.relayPeerId === relayPeerId
+  }
+
   getAddrs () {
     if (this.multiaddr != null) {
       return [this.multiaddr]
@@ -125,5 +181,5 @@ export class WebRTCDirectListener extends EventEmitter<ListenerEvents> implement
 }
 
 export function createListener (options: WebRTCDirectListenerOptions) {
-  return new WebRTCDirectListener(options.upgrader, options.signallingEnabled, options.wrtc, options.receiverOptions, options.handler)
+  return new WebRTCDirectListener(options)
 }
@@ -0,0 +1,60 @@
+import type { Counter, CounterGroup, MetricGroup, Metrics } from '@libp2p/interface-metrics'
+
+// Metrics reported by the transport, its listeners and the signalling relay
+export interface WebRTCDirectMetrics {
+  // Dials by path (http / signalling)
+  dials: CounterGroup
+  // Failed dials by path (http / signalling)
+  dialErrors: CounterGroup
+  // Time taken by dials to open a connection by path (http / signalling)
+  dialDuration: MetricGroup
+  // Offers received over HTTP by outcome (received / rejected)
+  httpOffers: CounterGroup
+  // Connections that failed before opening
+  iceFailures: Counter
+  // Signalling messages forwarded by the relay by message type
+  forwardedMessages: CounterGroup
+  // Signalling messages dropped by the relay as already seen
+  seenCacheHits: Counter
+}
+
+/**
+ * Register the transport metrics with the libp2p metrics component
+ * calculateChannels is called to report the number of signalling channels tracked by the relay
+ */
+export function createMetrics (metrics: Metrics, calculateChannels: () => Record<string, number>): WebRTCDirectMetrics {
+  metrics.registerMetricGroup('libp2p_webrtc_direct_signalling_channels', {
+    label: 'type',
+    help: 'Signalling channels tracked by the relay to peers and relay nodes',
+    calculate: calculateChannels
+  })
+
+  return {
+    dials: metrics.registerCounterGroup('libp2p_webrtc_direct_dials_total', {
+      label: 'path',
+      help: 'Dials by path'
+    }),
+    dialErrors: metrics.registerCounterGroup('libp2p_webrtc_direct_dial_errors_total', {
+      label: 'path',
+      help: 'Failed dials by path'
+    }),
+    dialDuration: metrics.registerMetricGroup('libp2p_webrtc_direct_dial_duration_seconds', {
+      label: 'path',
+      help: 'Time taken to open a connection by dial path'
+    }),
+    httpOffers: metrics.registerCounterGroup('libp2p_webrtc_direct_http_offers_total', {
+      label: 'outcome',
+      help: 'Offers received over HTTP by outcome'
+    }),
+    iceFailures: metrics.registerCounter('libp2p_webrtc_direct_ice_failures_total', {
+      help: 'WebRTC connections that failed before opening'
+    }),
+    forwardedMessages: metrics.registerCounterGroup('libp2p_webrtc_direct_forwarded_messages_total', {
+      label: 'type',
+      help: 'Signalling messages forwarded by the relay by type'
+    }),
+    seenCacheHits: metrics.registerCounter('libp2p_webrtc_direct_seen_cache_hits_total', {
+      help: 'Signalling messages dropped by the relay as already seen'
+    })
+  }
+}
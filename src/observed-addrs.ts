@@ -0,0 +1,71 @@
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+// Kind of NAT mapping inferred from the addresses reported by different relay nodes and listeners
+export enum NatMapping {
+  // Fewer than two reports of the same address family to compare
+  Unknown = 'unknown',
+  // The same address was observed by all of them
+  EndpointIndependent = 'endpoint-independent',
+  // Different addresses were observed depending on who was connected to
+  EndpointDependent = 'endpoint-dependent'
+}
+
+// Address of this node as observed by a relay node or listener
+export interface ObservedAddrReport {
+  // Peer id of the relay node or the url of the listener that made the report
+  reporter: string
+  addr: Multiaddr
+  // Time at which the report was received
+  timestamp: number
+}
+
+// An observed address and the relay nodes / listeners that reported it
+export interface ObservedAddr {
+  addr: Multiaddr
+  reporters: string[]
+}
+
+// Collects the addresses of this node observed by the relay nodes and listeners it connects to,
+// keeping the latest report of each
+export class ObservedAddrs {
+  private readonly reports: Map<string, ObservedAddrReport> = new Map()
+
+  add (reporter: string, addr: Multiaddr) {
+    this.reports.set(reporter, { reporter, addr, timestamp: Date.now() })
+  }
+
+  getReports (): ObservedAddrReport[] {
+    return Array.from(this.reports.values())
+  }
+
+  // Distinct observed addresses, the ones reported by the most relay nodes / listeners first
+  getAddrs (): ObservedAddr[] {
+    const addrs: Map<string, ObservedAddr> = new Map()
+
+    this.reports.forEach(({ reporter, addr }) => {
+      const observedAddr = addrs.get(addr.toString()) ?? { addr, reporters: [] }
+      observedAddr.reporters.push(reporter)
+      addrs.set(addr.toString(), observedAddr)
+    })
+
+    return Array.from(addrs.values()).sort((a, b) => b.reporters.length - a.reporters.length)
+  }
+
+  // Only the IPs are compared, as the addresses are observed on the HTTP requests
+  // and every TCP connection gets a new ephemeral source port;
+  // IPv4 and IPv6 addresses are compared separately (e.g. reported by a dual-stack relay node)
+  getNatMapping (): NatMapping {
+    const hostsByFamily: Map<number, string[]> = new Map()
+    this.reports.forEach(({ addr }) => {
+      const { family, host } = addr.toOptions()
+      hostsByFamily.set(family, [...hostsByFamily.get(family) ?? [], host])
+    })
+
+    const comparable = Array.from(hostsByFamily.values()).filter(hosts => hosts.length >= 2)
+    if (comparable.length === 0) {
+      return NatMapping.Unknown
+    }
+
+    return comparable.every(hosts => new Set(hosts).size === 1) ? NatMapping.EndpointIndependent : NatMapping.EndpointDependent
+  }
+}
@@ -0,0 +1,1509 @@
+/* eslint-disable import/export */
+/* eslint-disable complexity */
+/* eslint-disable @typescript-eslint/no-namespace */
+/* eslint-disable @typescript-eslint/no-unnecessary-boolean-literal-compare */
+/* eslint-disable @typescript-eslint/no-empty-interface */
+
+import { enumeration, encodeMessage, decodeMessage, message } from 'protons-runtime'
+import type { Codec } from 'protons-runtime'
+import type { Uint8ArrayList } from 'uint8arraylist'
+
+export interface SignallingMessage {
+  version: number
+  type: SignallingMessage.Type
+  joinRequest?: JoinRequest
+  connectRequest?: ConnectRequest
+  connectResponse?: ConnectResponse
+  presenceUpdate?: PresenceUpdate
+  connectReject?: ConnectReject
+  iceCandidate?: IceCandidate
+  joinChallenge?: JoinChallenge
+  relayShutdown?: RelayShutdown
+  peerQuery?: PeerQuery
+  peerList?: PeerList
+  iceServers?: IceServers
+  joinResponse?: JoinResponse
+  versionMismatch?: VersionMismatch
+}
+
+export namespace SignallingMessage {
+  export enum Type {
+    JOIN_REQUEST = 'JOIN_REQUEST',
+    CONNECT_REQUEST = 'CONNECT_REQUEST',
+    CONNECT_RESPONSE = 'CONNECT_RESPONSE',
+    PRESENCE_UPDATE = 'PRESENCE_UPDATE',
+    CONNECT_REJECT = 'CONNECT_REJECT',
+    ICE_CANDIDATE = 'ICE_CANDIDATE',
+    JOIN_CHALLENGE = 'JOIN_CHALLENGE',
+    RELAY_SHUTDOWN = 'RELAY_SHUTDOWN',
+    PEER_QUERY = 'PEER_QUERY',
+    PEER_LIST = 'PEER_LIST',
+    ICE_SERVERS = 'ICE_SERVERS',
+    JOIN_RESPONSE = 'JOIN_RESPONSE',
+    VERSION_MISMATCH = 'VERSION_MISMATCH'
+  }
+
+  enum __TypeValues {
+    JOIN_REQUEST = 0,
+    CONNECT_REQUEST = 1,
+    CONNECT_RESPONSE = 2,
+    PRESENCE_UPDATE = 3,
+    CONNECT_REJECT = 4,
+    ICE_CANDIDATE = 5,
+    JOIN_CHALLENGE = 6,
+    RELAY_SHUTDOWN = 7,
+    PEER_QUERY = 8,
+    PEER_LIST = 9,
+    ICE_SERVERS = 10,
+    JOIN_RESPONSE = 11,
+    VERSION_MISMATCH = 12
+  }
+
+  export namespace Type {
+    export const codec = (): Codec<Type> => {
+      return enumeration<Type>(__TypeValues)
+    }
+  }
+
+  let _codec: Codec<SignallingMessage>
+
+  export const codec = (): Codec<SignallingMessage> => {
+    if (_codec == null) {
+      _codec = message<SignallingMessage>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.version != null && obj.version !== 0)) {
+          w.uint32(8)
+          w.uint32(obj.version)
+        }
+
+        if (obj.type != null && __TypeValues[obj.type] !== 0) {
+          w.uint32(16)
+          SignallingMessage.Type.codec().encode(obj.type, w)
+        }
+
+        if (obj.joinRequest != null) {
+          w.uint32(26)
+          JoinRequest.codec().encode(obj.joinRequest, w)
+        }
+
+        if (obj.connectRequest != null) {
+          w.uint32(34)
+          ConnectRequest.codec().encode(obj.connectRequest, w)
+        }
+
+        if (obj.connectResponse != null) {
+          w.uint32(42)
+          ConnectResponse.codec().encode(obj.connectResponse, w)
+        }
+
+        if (obj.presenceUpdate != null) {
+          w.uint32(50)
+          PresenceUpdate.codec().encode(obj.presenceUpdate, w)
+        }
+
+        if (obj.connectReject != null) {
+          w.uint32(58)
+          ConnectReject.codec().encode(obj.connectReject, w)
+        }
+
+        if (obj.iceCandidate != null) {
+          w.uint32(66)
+          IceCandidate.codec().encode(obj.iceCandidate, w)
+        }
+
+        if (obj.joinChallenge != null) {
+          w.uint32(74)
+          JoinChallenge.codec().encode(obj.joinChallenge, w)
+        }
+
+        if (obj.relayShutdown != null) {
+          w.uint32(82)
+          RelayShutdown.codec().encode(obj.relayShutdown, w)
+        }
+
+        if (obj.peerQuery != null) {
+          w.uint32(90)
+          PeerQuery.codec().encode(obj.peerQuery, w)
+        }
+
+        if (obj.peerList != null) {
+          w.uint32(98)
+          PeerList.codec().encode(obj.peerList, w)
+        }
+
+        if (obj.iceServers != null) {
+          w.uint32(106)
+          IceServers.codec().encode(obj.iceServers, w)
+        }
+
+        if (obj.joinResponse != null) {
+          w.uint32(114)
+          JoinResponse.codec().encode(obj.joinResponse, w)
+        }
+
+        if (obj.versionMismatch != null) {
+          w.uint32(122)
+          VersionMismatch.codec().encode(obj.versionMismatch, w)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          version: 0,
+          type: Type.JOIN_REQUEST
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.version = reader.uint32()
+              break
+            case 2:
+              obj.type = SignallingMessage.Type.codec().decode(reader)
+              break
+            case 3:
+              obj.joinRequest = JoinRequest.codec().decode(reader, reader.uint32())
+              break
+            case 4:
+              obj.connectRequest = ConnectRequest.codec().decode(reader, reader.uint32())
+              break
+            case 5:
+              obj.connectResponse = ConnectResponse.codec().decode(reader, reader.uint32())
+              break
+            case 6:
+              obj.presenceUpdate = PresenceUpdate.codec().decode(reader, reader.uint32())
+              break
+            case 7:
+              obj.connectReject = ConnectReject.codec().decode(reader, reader.uint32())
+              break
+            case 8:
+              obj.iceCandidate = IceCandidate.codec().decode(reader, reader.uint32())
+              break
+            case 9:
+              obj.joinChallenge = JoinChallenge.codec().decode(reader, reader.uint32())
+              break
+            case 10:
+              obj.relayShutdown = RelayShutdown.codec().decode(reader, reader.uint32())
+              break
+            case 11:
+              obj.peerQuery = PeerQuery.codec().decode(reader, reader.uint32())
+              break
+            case 12:
+              obj.peerList = PeerList.codec().decode(reader, reader.uint32())
+              break
+            case 13:
+              obj.iceServers = IceServers.codec().decode(reader, reader.uint32())
+              break
+            case 14:
+              obj.joinResponse = JoinResponse.codec().decode(reader, reader.uint32())
+              break
+            case 15:
+              obj.versionMismatch = VersionMismatch.codec().decode(reader, reader.uint32())
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<SignallingMessage>): Uint8Array => {
+    return encodeMessage(obj, SignallingMessage.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): SignallingMessage => {
+    return decodeMessage(buf, SignallingMessage.codec())
+  }
+}
+
+export interface SignallingMessageHeader {
+  version: number
+  type: number
+}
+
+export namespace SignallingMessageHeader {
+  let _codec: Codec<SignallingMessageHeader>
+
+  export const codec = (): Codec<SignallingMessageHeader> => {
+    if (_codec == null) {
+      _codec = message<SignallingMessageHeader>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.version != null && obj.version !== 0)) {
+          w.uint32(8)
+          w.uint32(obj.version)
+        }
+
+        if ((obj.type != null && obj.type !== 0)) {
+          w.uint32(16)
+          w.uint32(obj.type)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          version: 0,
+          type: 0
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.version = reader.uint32()
+              break
+            case 2:
+              obj.type = reader.uint32()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<SignallingMessageHeader>): Uint8Array => {
+    return encodeMessage(obj, SignallingMessageHeader.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): SignallingMessageHeader => {
+    return decodeMessage(buf, SignallingMessageHeader.codec())
+  }
+}
+
+export interface VersionMismatch {
+  minVersion: number
+  maxVersion: number
+}
+
+export namespace VersionMismatch {
+  let _codec: Codec<VersionMismatch>
+
+  export const codec = (): Codec<VersionMismatch> => {
+    if (_codec == null) {
+      _codec = message<VersionMismatch>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.minVersion != null && obj.minVersion !== 0)) {
+          w.uint32(8)
+          w.uint32(obj.minVersion)
+        }
+
+        if ((obj.maxVersion != null && obj.maxVersion !== 0)) {
+          w.uint32(16)
+          w.uint32(obj.maxVersion)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          minVersion: 0,
+          maxVersion: 0
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.minVersion = reader.uint32()
+              break
+            case 2:
+              obj.maxVersion = reader.uint32()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<VersionMismatch>): Uint8Array => {
+    return encodeMessage(obj, VersionMismatch.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): VersionMismatch => {
+    return decodeMessage(buf, VersionMismatch.codec())
+  }
+}
+
+export interface JoinChallenge {
+  nonce: Uint8Array
+}
+
+export namespace JoinChallenge {
+  let _codec: Codec<JoinChallenge>
+
+  export const codec = (): Codec<JoinChallenge> => {
+    if (_codec == null) {
+      _codec = message<JoinChallenge>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.nonce != null && obj.nonce.byteLength > 0)) {
+          w.uint32(10)
+          w.bytes(obj.nonce)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          nonce: new Uint8Array(0)
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.nonce = reader.bytes()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<JoinChallenge>): Uint8Array => {
+    return encodeMessage(obj, JoinChallenge.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): JoinChallenge => {
+    return decodeMessage(buf, JoinChallenge.codec())
+  }
+}
+
+export interface JoinRequest {
+  peerId: string
+  signature: Uint8Array
+  publicKey: Uint8Array
+}
+
+export namespace JoinRequest {
+  let _codec: Codec<JoinRequest>
+
+  export const codec = (): Codec<JoinRequest> => {
+    if (_codec == null) {
+      _codec = message<JoinRequest>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.peerId != null && obj.peerId !== '')) {
+          w.uint32(10)
+          w.string(obj.peerId)
+        }
+
+        if ((obj.signature != null && obj.signature.byteLength > 0)) {
+          w.uint32(18)
+          w.bytes(obj.signature)
+        }
+
+        if ((obj.publicKey != null && obj.publicKey.byteLength > 0)) {
+          w.uint32(26)
+          w.bytes(obj.publicKey)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          peerId: '',
+          signature: new Uint8Array(0),
+          publicKey: new Uint8Array(0)
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.peerId = reader.string()
+              break
+            case 2:
+              obj.signature = reader.bytes()
+              break
+            case 3:
+              obj.publicKey = reader.bytes()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<JoinRequest>): Uint8Array => {
+    return encodeMessage(obj, JoinRequest.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): JoinRequest => {
+    return decodeMessage(buf, JoinRequest.codec())
+  }
+}
+
+export interface ConnectRequest {
+  src: string
+  dst: string
+  signal: string
+  requestId: string
+  signature: Uint8Array
+  publicKey: Uint8Array
+  hopLimit?: number
+  messageId?: string
+}
+
+export namespace ConnectRequest {
+  let _codec: Codec<ConnectRequest>
+
+  export const codec = (): Codec<ConnectRequest> => {
+    if (_codec == null) {
+      _codec = message<ConnectRequest>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.src != null && obj.src !== '')) {
+          w.uint32(10)
+          w.string(obj.src)
+        }
+
+        if ((obj.dst != null && obj.dst !== '')) {
+          w.uint32(18)
+          w.string(obj.dst)
+        }
+
+        if ((obj.signal != null && obj.signal !== '')) {
+          w.uint32(26)
+          w.string(obj.signal)
+        }
+
+        if ((obj.requestId != null && obj.requestId !== '')) {
+          w.uint32(34)
+          w.string(obj.requestId)
+        }
+
+        if ((obj.signature != null && obj.signature.byteLength > 0)) {
+          w.uint32(42)
+          w.bytes(obj.signature)
+        }
+
+        if ((obj.publicKey != null && obj.publicKey.byteLength > 0)) {
+          w.uint32(50)
+          w.bytes(obj.publicKey)
+        }
+
+        if (obj.hopLimit != null) {
+          w.uint32(56)
+          w.uint32(obj.hopLimit)
+        }
+
+        if (obj.messageId != null) {
+          w.uint32(66)
+          w.string(obj.messageId)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          src: '',
+          dst: '',
+          signal: '',
+          requestId: '',
+          signature: new Uint8Array(0),
+          publicKey: new Uint8Array(0)
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.src = reader.string()
+              break
+            case 2:
+              obj.dst = reader.string()
+              break
+            case 3:
+              obj.signal = reader.string()
+              break
+            case 4:
+              obj.requestId = reader.string()
+              break
+            case 5:
+              obj.signature = reader.bytes()
+              break
+            case 6:
+              obj.publicKey = reader.bytes()
+              break
+            case 7:
+              obj.hopLimit = reader.uint32()
+              break
+            case 8:
+              obj.messageId = reader.string()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<ConnectRequest>): Uint8Array => {
+    return encodeMessage(obj, ConnectRequest.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): ConnectRequest => {
+    return decodeMessage(buf, ConnectRequest.codec())
+  }
+}
+
+export interface ConnectResponse {
+  src: string
+  dst: string
+  signal: string
+  requestId: string
+  signature: Uint8Array
+  publicKey: Uint8Array
+  hopLimit?: number
+  messageId?: string
+}
+
+export namespace ConnectResponse {
+  let _codec: Codec<ConnectResponse>
+
+  export const codec = (): Codec<ConnectResponse> => {
+    if (_codec == null) {
+      _codec = message<ConnectResponse>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.src != null && obj.src !== '')) {
+          w.uint32(10)
+          w.string(obj.src)
+        }
+
+        if ((obj.dst != null && obj.dst !== '')) {
+          w.uint32(18)
+          w.string(obj.dst)
+        }
+
+        if ((obj.signal != null && obj.signal !== '')) {
+          w.uint32(26)
+          w.string(obj.signal)
+        }
+
+        if ((obj.requestId != null && obj.requestId !== '')) {
+          w.uint32(34)
+          w.string(obj.requestId)
+        }
+
+        if ((obj.signature != null && obj.signature.byteLength > 0)) {
+          w.uint32(42)
+          w.bytes(obj.signature)
+        }
+
+        if ((obj.publicKey != null && obj.publicKey.byteLength > 0)) {
+          w.uint32(50)
+          w.bytes(obj.publicKey)
+        }
+
+        if (obj.hopLimit != null) {
+          w.uint32(56)
+          w.uint32(obj.hopLimit)
+        }
+
+        if (obj.messageId != null) {
+          w.uint32(66)
+          w.string(obj.messageId)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          src: '',
+          dst: '',
+          signal: '',
+          requestId: '',
+          signature: new Uint8Array(0),
+          publicKey: new Uint8Array(0)
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.src = reader.string()
+              break
+            case 2:
+              obj.dst = reader.string()
+              break
+            case 3:
+              obj.signal = reader.string()
+              break
+            case 4:
+              obj.requestId = reader.string()
+              break
+            case 5:
+              obj.signature = reader.bytes()
+              break
+            case 6:
+              obj.publicKey = reader.bytes()
+              break
+            case 7:
+              obj.hopLimit = reader.uint32()
+              break
+            case 8:
+              obj.messageId = reader.string()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<ConnectResponse>): Uint8Array => {
+    return encodeMessage(obj, ConnectResponse.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): ConnectResponse => {
+    return decodeMessage(buf, ConnectResponse.codec())
+  }
+}
+
+export interface IceCandidate {
+  src: string
+  dst: string
+  signal: string
+  requestId: string
+  messageId?: string
+}
+
+export namespace IceCandidate {
+  let _codec: Codec<IceCandidate>
+
+  export const codec = (): Codec<IceCandidate> => {
+    if (_codec == null) {
+      _codec = message<IceCandidate>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.src != null && obj.src !== '')) {
+          w.uint32(10)
+          w.string(obj.src)
+        }
+
+        if ((obj.dst != null && obj.dst !== '')) {
+          w.uint32(18)
+          w.string(obj.dst)
+        }
+
+        if ((obj.signal != null && obj.signal !== '')) {
+          w.uint32(26)
+          w.string(obj.signal)
+        }
+
+        if ((obj.requestId != null && obj.requestId !== '')) {
+          w.uint32(34)
+          w.string(obj.requestId)
+        }
+
+        if (obj.messageId != null) {
+          w.uint32(42)
+          w.string(obj.messageId)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          src: '',
+          dst: '',
+          signal: '',
+          requestId: ''
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.src = reader.string()
+              break
+            case 2:
+              obj.dst = reader.string()
+              break
+            case 3:
+              obj.signal = reader.string()
+              break
+            case 4:
+              obj.requestId = reader.string()
+              break
+            case 5:
+              obj.messageId = reader.string()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<IceCandidate>): Uint8Array => {
+    return encodeMessage(obj, IceCandidate.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): IceCandidate => {
+    return decodeMessage(buf, IceCandidate.codec())
+  }
+}
+
+export interface ConnectReject {
+  src: string
+  dst: string
+  reason: number
+  requestId: string
+  messageId?: string
+}
+
+export namespace ConnectReject {
+  export enum Reason {
+    UNKNOWN_PEER = 'UNKNOWN_PEER',
+    RELAY_OVERLOADED = 'RELAY_OVERLOADED',
+    DENIED_BY_POLICY = 'DENIED_BY_POLICY',
+    HOP_LIMIT_EXCEEDED = 'HOP_LIMIT_EXCEEDED',
+    UNKNOWN = 'UNKNOWN',
+    NOT_JOINED = 'NOT_JOINED'
+  }
+
+  enum __ReasonValues {
+    UNKNOWN_PEER = 0,
+    RELAY_OVERLOADED = 1,
+    DENIED_BY_POLICY = 2,
+    HOP_LIMIT_EXCEEDED = 3,
+    UNKNOWN = 4,
+    NOT_JOINED = 5
+  }
+
+  export namespace Reason {
+    export const codec = (): Codec<Reason> => {
+      return enumeration<Reason>(__ReasonValues)
+    }
+  }
+
+  let _codec: Codec<ConnectReject>
+
+  export const codec = (): Codec<ConnectReject> => {
+    if (_codec == null) {
+      _codec = message<ConnectReject>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.src != null && obj.src !== '')) {
+          w.uint32(10)
+          w.string(obj.src)
+        }
+
+        if ((obj.dst != null && obj.dst !== '')) {
+          w.uint32(18)
+          w.string(obj.dst)
+        }
+
+        if ((obj.reason != null && obj.reason !== 0)) {
+          w.uint32(24)
+          w.uint32(obj.reason)
+        }
+
+        if ((obj.requestId != null && obj.requestId !== '')) {
+          w.uint32(34)
+          w.string(obj.requestId)
+        }
+
+        if (obj.messageId != null) {
+          w.uint32(42)
+          w.string(obj.messageId)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          src: '',
+          dst: '',
+          reason: 0,
+          requestId: ''
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.src = reader.string()
+              break
+            case 2:
+              obj.dst = reader.string()
+              break
+            case 3:
+              obj.reason = reader.uint32()
+              break
+            case 4:
+              obj.requestId = reader.string()
+              break
+            case 5:
+              obj.messageId = reader.string()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<ConnectReject>): Uint8Array => {
+    return encodeMessage(obj, ConnectReject.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): ConnectReject => {
+    return decodeMessage(buf, ConnectReject.codec())
+  }
+}
+
+export interface RelayShutdown {
+  alternativeRelays: string[]
+}
+
+export namespace RelayShutdown {
+  let _codec: Codec<RelayShutdown>
+
+  export const codec = (): Codec<RelayShutdown> => {
+    if (_codec == null) {
+      _codec = message<RelayShutdown>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if (obj.alternativeRelays != null) {
+          for (const value of obj.alternativeRelays) {
+            w.uint32(10)
+            w.string(value)
+          }
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          alternativeRelays: []
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.alternativeRelays.push(reader.string())
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<RelayShutdown>): Uint8Array => {
+    return encodeMessage(obj, RelayShutdown.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): RelayShutdown => {
+    return decodeMessage(buf, RelayShutdown.codec())
+  }
+}
+
+export interface PeerQuery {
+  subscribe: boolean
+}
+
+export namespace PeerQuery {
+  let _codec: Codec<PeerQuery>
+
+  export const codec = (): Codec<PeerQuery> => {
+    if (_codec == null) {
+      _codec = message<PeerQuery>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.subscribe != null && obj.subscribe !== false)) {
+          w.uint32(8)
+          w.bool(obj.subscribe)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          subscribe: false
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.subscribe = reader.bool()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<PeerQuery>): Uint8Array => {
+    return encodeMessage(obj, PeerQuery.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): PeerQuery => {
+    return decodeMessage(buf, PeerQuery.codec())
+  }
+}
+
+export interface PeerList {
+  peers: string[]
+}
+
+export namespace PeerList {
+  let _codec: Codec<PeerList>
+
+  export const codec = (): Codec<PeerList> => {
+    if (_codec == null) {
+      _codec = message<PeerList>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if (obj.peers != null) {
+          for (const value of obj.peers) {
+            w.uint32(10)
+            w.string(value)
+          }
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          peers: []
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.peers.push(reader.string())
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<PeerList>): Uint8Array => {
+    return encodeMessage(obj, PeerList.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): PeerList => {
+    return decodeMessage(buf, PeerList.codec())
+  }
+}
+
+export interface JoinResponse {
+  accepted: boolean
+  listenAddrs: string[]
+  observedAddr?: string
+}
+
+export namespace JoinResponse {
+  let _codec: Codec<JoinResponse>
+
+  export const codec = (): Codec<JoinResponse> => {
+    if (_codec == null) {
+      _codec = message<JoinResponse>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.accepted != null && obj.accepted !== false)) {
+          w.uint32(8)
+          w.bool(obj.accepted)
+        }
+
+        if (obj.listenAddrs != null) {
+          for (const value of obj.listenAddrs) {
+            w.uint32(18)
+            w.string(value)
+          }
+        }
+
+        if (obj.observedAddr != null) {
+          w.uint32(26)
+          w.string(obj.observedAddr)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          accepted: false,
+          listenAddrs: []
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.accepted = reader.bool()
+              break
+            case 2:
+              obj.listenAddrs.push(reader.string())
+              break
+            case 3:
+              obj.observedAddr = reader.string()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<JoinResponse>): Uint8Array => {
+    return encodeMessage(obj, JoinResponse.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): JoinResponse => {
+    return decodeMessage(buf, JoinResponse.codec())
+  }
+}
+
+export interface IceServer {
+  urls: string[]
+  username?: string
+  credential?: string
+}
+
+export namespace IceServer {
+  let _codec: Codec<IceServer>
+
+  export const codec = (): Codec<IceServer> => {
+    if (_codec == null) {
+      _codec = message<IceServer>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if (obj.urls != null) {
+          for (const value of obj.urls) {
+            w.uint32(10)
+            w.string(value)
+          }
+        }
+
+        if (obj.username != null) {
+          w.uint32(18)
+          w.string(obj.username)
+        }
+
+        if (obj.credential != null) {
+          w.uint32(26)
+          w.string(obj.credential)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          urls: []
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.urls.push(reader.string())
+              break
+            case 2:
+              obj.username = reader.string()
+              break
+            case 3:
+              obj.credential = reader.string()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<IceServer>): Uint8Array => {
+    return encodeMessage(obj, IceServer.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): IceServer => {
+    return decodeMessage(buf, IceServer.codec())
+  }
+}
+
+export interface IceServers {
+  servers: IceServer[]
+}
+
+export namespace IceServers {
+  let _codec: Codec<IceServers>
+
+  export const codec = (): Codec<IceServers> => {
+    if (_codec == null) {
+      _codec = message<IceServers>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if (obj.servers != null) {
+          for (const value of obj.servers) {
+            w.uint32(10)
+            IceServer.codec().encode(value, w)
+          }
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          servers: []
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.servers.push(IceServer.codec().decode(reader, reader.uint32()))
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<IceServers>): Uint8Array => {
+    return encodeMessage(obj, IceServers.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): IceServers => {
+    return decodeMessage(buf, IceServers.codec())
+  }
+}
+
+export interface PeerRoute {
+  peerId: string
+  hops: number
+}
+
+export namespace PeerRoute {
+  let _codec: Codec<PeerRoute>
+
+  export const codec = (): Codec<PeerRoute> => {
+    if (_codec == null) {
+      _codec = message<PeerRoute>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if ((obj.peerId != null && obj.peerId !== '')) {
+          w.uint32(10)
+          w.string(obj.peerId)
+        }
+
+        if ((obj.hops != null && obj.hops !== 0)) {
+          w.uint32(16)
+          w.uint32(obj.hops)
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          peerId: '',
+          hops: 0
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.peerId = reader.string()
+              break
+            case 2:
+              obj.hops = reader.uint32()
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<PeerRoute>): Uint8Array => {
+    return encodeMessage(obj, PeerRoute.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): PeerRoute => {
+    return decodeMessage(buf, PeerRoute.codec())
+  }
+}
+
+export interface PresenceUpdate {
+  joined: PeerRoute[]
+  left: string[]
+}
+
+export namespace PresenceUpdate {
+  let _codec: Codec<PresenceUpdate>
+
+  export const codec = (): Codec<PresenceUpdate> => {
+    if (_codec == null) {
+      _codec = message<PresenceUpdate>((obj, w, opts = {}) => {
+        if (opts.lengthDelimited !== false) {
+          w.fork()
+        }
+
+        if (obj.joined != null) {
+          for (const value of obj.joined) {
+            w.uint32(10)
+            PeerRoute.codec().encode(value, w)
+          }
+        }
+
+        if (obj.left != null) {
+          for (const value of obj.left) {
+            w.uint32(18)
+            w.string(value)
+          }
+        }
+
+        if (opts.lengthDelimited !== false) {
+          w.ldelim()
+        }
+      }, (reader, length) => {
+        const obj: any = {
+          joined: [],
+          left: []
+        }
+
+        const end = length == null ? reader.len : reader.pos + length
+
+        while (reader.pos < end) {
+          const tag = reader.uint32()
+
+          switch (tag >>> 3) {
+            case 1:
+              obj.joined.push(PeerRoute.codec().decode(reader, reader.uint32()))
+              break
+            case 2:
+              obj.left.push(reader.string())
+              break
+            default:
+              reader.skipType(tag & 7)
+              break
+          }
+        }
+
+        return obj
+      })
+    }
+
+    return _codec
+  }
+
+  export const encode = (obj: Partial<PresenceUpdate>): Uint8Array => {
+    return encodeMessage(obj, PresenceUpdate.codec())
+  }
+
+  export const decode = (buf: Uint8Array | Uint8ArrayList): PresenceUpdate => {
+    return decodeMessage(buf, PresenceUpdate.codec())
+  }
+}
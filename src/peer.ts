@@ -0,0 +1,25 @@
+import { WebRTCInitiator, WebRTCReceiver } from '@cerc-io/webrtc-peer'
+
+// Initiator and receiver exposing the stats of their peer connection, which the base peers keep to themselves
+export class WebRTCDirectInitiator extends WebRTCInitiator {
+  async getStats (): Promise<RTCStatsReport | undefined> {
+    return await getPeerConnectionStats(this.peerConnection)
+  }
+}
+
+export class WebRTCDirectReceiver extends WebRTCReceiver {
+  async getStats (): Promise<RTCStatsReport | undefined> {
+    return await getPeerConnectionStats(this.peerConnection)
+  }
+}
+
+export type WebRTCDirectPeer = WebRTCDirectInitiator | WebRTCDirectReceiver
+
+// Stats of a peer connection, none if it is gone or has been closed
+async function getPeerConnectionStats (peerConnection?: RTCPeerConnection): Promise<RTCStatsReport | undefined> {
+  if (peerConnection == null || peerConnection.signalingState === 'closed') {
+    return undefined
+  }
+
+  return await peerConnection.getStats()
+}
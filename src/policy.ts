@@ -0,0 +1,70 @@
+import { logger } from '@libp2p/logger'
+
+const log = logger('libp2p:webrtc-direct:policy')
+
+// Action on the signalling network a relay node decides on
+export type SignallingPolicyRequest =
+  // A peer joining the relay node over a signalling channel
+  | { type: 'join', peerId: string }
+  // A relay node forming a signalling channel with the relay node
+  | { type: 'relay', peerId: string }
+  // A signalling message being forwarded from one peer to another
+  | { type: 'forward', src: string, dst: string }
+
+// Allow / deny policy applied by relay nodes
+// Deny lists take precedence over allow lists; the callback is only consulted for requests passing the static lists
+export interface SignallingPolicy {
+  // Peers allowed to join; all peers are allowed if not set
+  allowPeers?: string[]
+  // Peers denied from joining and from being forwarded signalling messages from and to
+  denyPeers?: string[]
+  // Relay nodes allowed to form signalling channels; all relay nodes are allowed if not set
+  allowRelays?: string[]
+  denyRelays?: string[]
+  // Decide on requests dynamically
+  isAllowed?: (request: SignallingPolicyRequest) => boolean | Promise<boolean>
+}
+
+function isListed (peerId: string, allow?: string[], deny?: string[]): boolean {
+  if (deny?.includes(peerId) === true) {
+    return false
+  }
+
+  return allow == null || allow.includes(peerId)
+}
+
+/**
+ * Check a request against the policy, logging if it is denied
+ */
+export async function checkPolicy (policy: SignallingPolicy | undefined, request: SignallingPolicyRequest): Promise<boolean> {
+  if (policy == null) {
+    return true
+  }
+
+  let allowed: boolean
+
+  if (request.type === 'join') {
+    allowed = isListed(request.peerId, policy.allowPeers, policy.denyPeers)
+  } else if (request.type === 'relay') {
+    allowed = isListed(request.peerId, policy.allowRelays, policy.denyRelays)
+  } else {
+    // Only the deny list applies as messages in transit may be between peers joined to other relay nodes
+    allowed = isListed(request.src, undefined, policy.denyPeers) &&
+      isListed(request.dst, undefined, policy.denyPeers)
+  }
+
+  if (allowed && policy.isAllowed != null) {
+    try {
+      allowed = await policy.isAllowed(request)
+    } catch (err: any) {
+      log.error('policy callback failed, denying', err)
+      allowed = false
+    }
+  }
+
+  if (!allowed) {
+    log('denied by policy %o', request)
+  }
+
+  return allowed
+}
@@ -0,0 +1,76 @@
+// Counters and size of a SeenCache
+export interface SeenCacheStats {
+  size: number
+  capacity: number
+  // Lookups of ids already in the cache
+  hits: number
+  // Entries dropped to make room for new ones before they expired
+  evictions: number
+  // Entries dropped after their TTL
+  expirations: number
+}
+
+// Size-capped LRU cache of message ids with a TTL, used by relay nodes to drop already seen messages
+export class SeenCache {
+  private readonly capacity: number
+  private readonly ttl: number
+  // Expiry time by message id, in least to most recently seen order
+  private readonly entries: Map<string, number> = new Map()
+  private hits = 0
+  private evictions = 0
+  private expirations = 0
+
+  constructor (capacity: number, ttl: number) {
+    this.capacity = capacity
+    this.ttl = ttl
+  }
+
+  // Record a message id and return whether it had already been seen
+  checkAndAdd (id: string): boolean {
+    const now = Date.now()
+    const expiry = this.entries.get(id)
+    const seen = expiry != null && expiry > now
+
+    if (expiry != null && !seen) {
+      this.expirations++
+    }
+
+    if (seen) {
+      this.hits++
+    }
+
+    // (Re)insert as the most recently seen entry
+    this.entries.delete(id)
+    this._prune(now)
+    this.entries.set(id, now + this.ttl)
+
+    return seen
+  }
+
+  getStats (): SeenCacheStats {
+    return {
+      size: this.entries.size,
+      capacity: this.capacity,
+      hits: this.hits,
+      evictions: this.evictions,
+      expirations: this.expirations
+    }
+  }
+
+  // Drop the expired entries and evict the least recently seen ones to make room for a new entry
+  _prune (now: number) {
+    for (const [id, expiry] of this.entries) {
+      if (this.entries.size < this.capacity && expiry > now) {
+        break
+      }
+
+      this.entries.delete(id)
+
+      if (expiry > now) {
+        this.evictions++
+      } else {
+        this.expirations++
+      }
+    }
+  }
+}
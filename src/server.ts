@@ -3,21 +3,30 @@ import { logger } from '@libp2p/logger'
 import { base58btc } from 'multiformats/bases/base58'
 import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
 import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { concat as uint8ArrayConcat } from 'uint8arrays/concat'
 import { Multiaddr, multiaddr } from '@multiformats/multiaddr'
 import type { IncomingMessage, ServerResponse } from 'http'
 import { EventEmitter, CustomEvent } from '@libp2p/interfaces/events'
 import type { MultiaddrConnection } from '@libp2p/interface-connection'
+import type { PeerId } from '@libp2p/interface-peer-id'
 import { ipPortToMultiaddr } from '@libp2p/utils/ip-port-to-multiaddr'
 import { toMultiaddrConnection } from './socket-to-conn.js'
-import { Signal, WebRTCReceiver, WebRTCReceiverInit, WRTC } from '@cerc-io/webrtc-peer'
+import { WebRTCDirectReceiver } from './peer.js'
+import type { Signal, WebRTCReceiverInit, WRTC } from '@cerc-io/webrtc-peer'
 import defer, { DeferredPromise } from 'p-defer'
-import Cache from 'timed-cache'
-import { sha256 } from 'multiformats/hashes/sha2'
+import errCode from 'err-code'
 
 import { http } from './http-server.js'
-import { ConnectRequest, ConnectResponse, SignallingChannelType, SignallingMessage } from './signal-message.js'
-import { SEEN_CACHE_TTL } from './constants.js'
-import { setChannelClosingInterval } from './helpers.js'
+import { ConnectReject, ConnectRejectReason, ConnectRequest, ConnectResponse, HTTPSignalRequest, HTTPSignalResponse, IceCandidate, IceServer, SignallingChannelType, SignallingMessage } from './signal-message.js'
+import { decodeSignallingMessage, encodeSignallingMessage } from './signal-codec.js'
+import type { SignallingRelay } from './signalling-relay.js'
+import { signConnectMessage, verifyConnectMessage } from './signing.js'
+import { AdmissionLimits, admissionLimitsWithDefaults } from './admission.js'
+import type { WebRTCDirectMetrics } from './metrics.js'
+import type { SeenCacheStats } from './seen-cache.js'
+import { createMessageId } from './helpers.js'
+import { HEALTH_PATH, JOIN_RESPONSE_TIMEOUT, MAX_SIGNAL_BODY_SIZE, STATUS_PATH } from './constants.js'
+import { codes } from './errors.js'
 
 const log = logger('libp2p:webrtc-direct:listener')
 const debugLog = logger('laconic:webrtc-direct:debug')
@@ -28,36 +37,120 @@ interface WebRTCDirectServerEvents {
   'connection': CustomEvent<MultiaddrConnection>
 }
 
+// Body of the response to the status route
+export interface WebRTCDirectServerStatus {
+  // Peers joined to the relay node over signalling channels
+  peers: string[]
+  // Signalling channels to other relay nodes
+  relayChannels: number
+  // Peers joined to other relay nodes that are reachable through the relay channels
+  routedPeers: number
+  // Open connections to this listener
+  connections: number
+  // Size and counters of the cache of seen signalling message ids
+  seenCache?: SeenCacheStats
+  // Time (s) since the listener started listening
+  uptime: number
+}
+
+// Signal read from a request to the HTTP signalling endpoint and how to encode the answer to it
+interface SignalRequest {
+  incSignal: Signal
+  signallingChannelType: string
+  encodeSignal: (signal: Signal) => string
+}
+
 export class WebRTCDirectSigServer extends EventEmitter<WebRTCDirectServerEvents> {
   private readonly wrtc?: WRTC
   private readonly receiverOptions?: WebRTCReceiverInit
-  private channels: WebRTCReceiver[]
+  private channels: WebRTCDirectReceiver[]
+  // Keep track of incoming connections still accepting ICE candidates by request id
+  private readonly trickleChannels: Map<string, { src: string, channel: WebRTCDirectReceiver }> = new Map()
+  // Candidates that arrive while the request they belong to is being verified, by request id
+  private readonly pendingCandidates: Map<string, IceCandidate[]> = new Map()
 
   private readonly multiAddr: Multiaddr
+  // Peer id of this node, used to sign the connect responses
+  private readonly peerId: PeerId
   private signallingChannel?: RTCDataChannel
-
-  constructor (multiaddr: Multiaddr, wrtc?: WRTC, receiverOptions?: WebRTCReceiverInit) {
+  // ICE servers sent by the relay node on joining, used for the incoming connections
+  private iceServers?: IceServer[]
+  private readonly metrics?: WebRTCDirectMetrics
+  // Time (ms) to wait for the relay node to acknowledge the join
+  private readonly joinTimeout: number
+  // Fails the listen if the join is not acknowledged in time
+  private joinTimer?: ReturnType<typeof setTimeout>
+
+  constructor (multiaddr: Multiaddr, peerId: PeerId, wrtc?: WRTC, receiverOptions?: WebRTCReceiverInit, metrics?: WebRTCDirectMetrics, joinTimeout = JOIN_RESPONSE_TIMEOUT) {
     super()
 
+    this.metrics = metrics
+    this.joinTimeout = joinTimeout
+
     this.multiAddr = multiaddr
+    this.peerId = peerId
     this.channels = []
     this.wrtc = wrtc
     this.receiverOptions = receiverOptions
   }
 
   // Start listening using the signalling channel
+  // (listening once the relay node acknowledges the join over it)
   registerSignallingChannel (signallingChannel: RTCDataChannel) {
     this.signallingChannel = signallingChannel
 
+    this.clearJoinTimer()
+    this.joinTimer = setTimeout(() => {
+      this.joinTimer = undefined
+      this.dispatchEvent(new CustomEvent<Error>('error', {
+        detail: errCode(new Error('timed out waiting for the relay node to acknowledge the join'), codes.ERR_JOIN_TIMEOUT)
+      }))
+    }, this.joinTimeout)
+
     const handleMessage = (evt: MessageEvent) => {
-      const msgUint8Array = new Uint8Array(evt.data)
+      let msg: SignallingMessage
+
+      try {
+        // Decode incoming message into a SignallingMessage object
+        msg = decodeSignallingMessage(new Uint8Array(evt.data))
+      } catch (err: any) {
+        log.error('invalid message over signalling channel', err)
+        return
+      }
 
-      // Parse incoming message into a SignallingMessage object
-      const msg: SignallingMessage = JSON.parse(uint8ArrayToString(msgUint8Array))
+      // Handle the join response, connect requests and candidates forwarded over signalling channel; ignore everything else
+      switch (msg.type) {
+        case 'JoinResponse':
+          this.clearJoinTimer()
+
+          if (!msg.accepted) {
+            log.error('relay node rejected the join, not listening through it')
+            this.dispatchEvent(new CustomEvent<Error>('error', {
+              detail: errCode(new Error('relay node rejected the join'), codes.ERR_JOIN_REJECTED)
+            }))
+            break
+          }
+
+          this.dispatchEvent(new CustomEvent('listening'))
+          log('Listening using a signalling channel')
+          break
+
+        case 'ConnectRequest':
+          void this.processRequest(msg).catch(err => {
+            log.error('failed to process connect request', err)
+          })
+          break
+
+        case 'IceCandidate':
+          this.processCandidate(msg)
+          break
+
+        case 'IceServers':
+          this.iceServers = msg.servers
+          break
 
-      // Handle connect requests forwarded over signalling channel; ignore everything else
-      if (msg.type === 'ConnectRequest') {
-        this.processRequest(msg)
+        default:
+          break
       }
     }
 
@@ -67,51 +160,104 @@ export class WebRTCDirectSigServer extends EventEmitter<WebRTCDirectServerEvents
       // Remove message handler if channel closes
       log('stopping listening as signalling channel closed')
       signallingChannel.removeEventListener('message', handleMessage)
+
+      if (this.signallingChannel === signallingChannel) {
+        this.clearJoinTimer()
+      }
     }, { once: true })
+  }
 
-    this.dispatchEvent(new CustomEvent('listening'))
-    log('Listening using a signalling channel')
+  clearJoinTimer () {
+    clearTimeout(this.joinTimer)
+    this.joinTimer = undefined
   }
 
-  processRequest (request: ConnectRequest) {
+  async processRequest (request: ConnectRequest) {
     assert(this.signallingChannel)
     const signallingChannel = this.signallingChannel
 
+    // Turn away requests meant for another peer (e.g. replayed by a relay node)
+    if (request.dst !== this.peerId.toString()) {
+      log.error('rejecting connect request from %s meant for %s', request.src, request.dst)
+      this.rejectRequest(request, ConnectRejectReason.UnknownPeer)
+      return
+    }
+
+    // Hold back the candidates trickled right after the request until it has been verified
+    const bufferedCandidates: IceCandidate[] = []
+    this.pendingCandidates.set(request.requestId, bufferedCandidates)
+
+    // Only answer requests signed by the dialer and not tampered with by the relay nodes in the path
+    const valid = await verifyConnectMessage(request).finally(() => {
+      this.pendingCandidates.delete(request.requestId)
+    })
+    if (!valid) {
+      log.error('ignoring connect request from %s with an invalid signature', request.src)
+      return
+    }
+
     const incSignal: Signal = JSON.parse(request.signal)
 
     if (incSignal.type !== 'offer') {
-      // offers contain candidates so only respond to the offer
+      // candidates are sent separately as IceCandidate messages
       return
     }
 
-    const channel = new WebRTCReceiver({
+    // Trickle ICE candidates over the signalling channel
+    const channelOptions: WebRTCReceiverInit = {
       wrtc: this.wrtc,
+      trickle: true,
       ...this.receiverOptions
-    })
+    }
+
+    // Use the ICE servers provided by the relay node
+    if (this.iceServers != null) {
+      channelOptions.peerConnectionConfig = { ...channelOptions.peerConnectionConfig, iceServers: this.iceServers }
+    }
+
+    const channel = new WebRTCDirectReceiver(channelOptions)
     this.channels.push(channel)
+    this.trickleChannels.set(request.requestId, { src: request.src, channel })
+
+    const untrackTrickle = () => {
+      this.trickleChannels.delete(request.requestId)
+    }
+    channel.addEventListener('ready', untrackTrickle, { once: true })
+    channel.addEventListener('close', untrackTrickle, { once: true })
+
+    // Chain the sends as signing the response is async and the signals need to go out in order
+    let sending = Promise.resolve()
 
     channel.addEventListener('signal', (evt) => {
       const signal = evt.detail
-      const signalStr = JSON.stringify(signal)
-
-      // Send response signal
-      const response: ConnectResponse = {
-        type: 'ConnectResponse',
+      const fields = {
+        requestId: request.requestId,
         src: request.dst,
         dst: request.src,
-        signal: signalStr
+        signal: JSON.stringify(signal),
+        messageId: createMessageId()
       }
 
-      try {
-        signallingChannel.send(uint8ArrayFromString(JSON.stringify(response)))
-      } catch (err: any) {
-        debugLog('processRequest signalling channel send failed', err)
-        debugLog('signallingChannel.readyState', signallingChannel.readyState)
-      }
+      sending = sending.then(async () => {
+        // Send candidates as IceCandidate and anything else as the signed response signal
+        const response: ConnectResponse | IceCandidate = signal.type === 'candidate'
+          ? { type: 'IceCandidate', ...fields }
+          : await signConnectMessage<ConnectResponse>(this.peerId, { type: 'ConnectResponse', ...fields })
+
+        try {
+          signallingChannel.send(encodeSignallingMessage(response))
+        } catch (err: any) {
+          debugLog('processRequest signalling channel send failed', err)
+          debugLog('signallingChannel.readyState', signallingChannel.readyState)
+        }
+      }).catch(err => {
+        log.error('failed to send connect response', err)
+      })
     })
     channel.addEventListener('error', (evt) => {
       const err = evt.detail
 
+      this.metrics?.iceFailures.increment()
       log.error('incoming connection errored with', err)
       void channel.close().catch(err => {
         log.error(err)
@@ -119,8 +265,9 @@ export class WebRTCDirectSigServer extends EventEmitter<WebRTCDirectServerEvents
     })
     channel.addEventListener('ready', () => {
       const maConn = toMultiaddrConnection(channel, {
-        // Form the multiaddr for this peer by appending it's peer id to the listening multiaddr
-        remoteAddr: multiaddr(`${this.multiAddr.toString()}/p2p/${request.dst}`)
+        // Form the multiaddr of the dialer by appending its peer id to the listening multiaddr (<relay addr>/p2p-webrtc-star)
+        // The listener checks it against the peer authenticated on upgrade
+        remoteAddr: multiaddr(`${this.multiAddr.toString()}/p2p/${request.src}`)
       })
       log('new inbound connection %s', maConn.remoteAddr)
 
@@ -135,13 +282,56 @@ export class WebRTCDirectSigServer extends EventEmitter<WebRTCDirectServerEvents
     })
 
     channel.handleSignal(incSignal)
+    bufferedCandidates.forEach(candidate => this.processCandidate(candidate))
+  }
+
+  // Send a ConnectReject back to the dialer of a ConnectRequest
+  // (in the name of this peer, as relay nodes only route messages sent by the joined peers in their own name)
+  rejectRequest (request: ConnectRequest, reason: ConnectRejectReason) {
+    assert(this.signallingChannel)
+
+    const reject: ConnectReject = {
+      type: 'ConnectReject',
+      requestId: request.requestId,
+      src: this.peerId.toString(),
+      dst: request.src,
+      reason,
+      messageId: createMessageId()
+    }
+
+    try {
+      this.signallingChannel.send(encodeSignallingMessage(reject))
+    } catch (err: any) {
+      debugLog('connect reject send failed', err)
+      debugLog('signallingChannel.readyState', this.signallingChannel.readyState)
+    }
+  }
+
+  processCandidate (candidate: IceCandidate) {
+    const bufferedCandidates = this.pendingCandidates.get(candidate.requestId)
+    if (bufferedCandidates != null) {
+      bufferedCandidates.push(candidate)
+      return
+    }
+
+    // Ignore candidates for connections that are already up or were requested by some other peer
+    const trickleChannel = this.trickleChannels.get(candidate.requestId)
+    if (trickleChannel == null || trickleChannel.src !== candidate.src) {
+      debugLog('ignoring ICE candidate for unknown request %s', candidate.requestId)
+      return
+    }
+
+    trickleChannel.channel.handleSignal(JSON.parse(candidate.signal))
   }
 
   deRegisterSignallingChannel () {
     this.signallingChannel = undefined
+    this.clearJoinTimer()
   }
 
   async close () {
+    this.clearJoinTimer()
+
     await Promise.all(
       this.channels.map(async (channel) => await channel.close())
     )
@@ -153,24 +343,32 @@ export class WebRTCDirectServer extends EventEmitter<WebRTCDirectServerEvents> {
   private readonly wrtc?: WRTC
   private readonly receiverOptions?: WebRTCReceiverInit
   private connections: MultiaddrConnection[]
-  private channels: WebRTCReceiver[]
+  private channels: WebRTCDirectReceiver[]
+
+  // Relay node side of the signalling network; set if signalling is enabled
+  private readonly signallingRelay?: SignallingRelay
 
-  private readonly signallingEnabled: boolean
-  // Keep track of signalling channels formed to peers by their peer id
-  // to forward signalling messages
-  private readonly peerSignallingChannelMap: Map<string, RTCDataChannel> = new Map()
+  // Limits on offers being answered and open channels
+  private readonly admissionLimits: Required<AdmissionLimits>
+  private inflightOffers = 0
+  private readonly inflightOffersPerIP: Map<string, number> = new Map()
 
-  // Keep track of signalling channels formed to relay peers to forward signalling messages
-  // where the destination peer isn't connected
-  private relaySignallingChannels: RTCDataChannel[] = []
+  private readonly metrics?: WebRTCDirectMetrics
 
-  // Keep a time-cache of signalling messages to avoid already seen messages
-  seenCache: Cache<boolean> = new Cache({ defaultTtl: SEEN_CACHE_TTL })
+  // Time at which the server started listening, reported by the status route
+  private startedAt?: number
 
-  constructor (multiaddr: Multiaddr, signallingEnabled: boolean, wrtc?: WRTC, receiverOptions?: WebRTCReceiverInit) {
+  private readonly multiAddr: Multiaddr
+
+  constructor (multiaddr: Multiaddr, signallingRelay?: SignallingRelay, wrtc?: WRTC, receiverOptions?: WebRTCReceiverInit, admissionLimits?: AdmissionLimits, metrics?: WebRTCDirectMetrics) {
     super()
 
-    this.signallingEnabled = signallingEnabled
+    this.metrics = metrics
+
+    this.multiAddr = multiaddr
+
+    this.signallingRelay = signallingRelay
+    this.admissionLimits = admissionLimitsWithDefaults(admissionLimits)
     this.connections = []
     this.channels = []
     this.wrtc = wrtc
@@ -194,6 +392,9 @@ export class WebRTCDirectServer extends EventEmitter<WebRTCDirectServerEvents> {
         return
       }
 
+      this.startedAt = Date.now()
+      // Let the peers joining the relay node know of this listen address
+      this.signallingRelay?.addListenAddr(this.multiAddr)
       this.dispatchEvent(new CustomEvent('listening'))
       log('Listening on %s %s', lOpts.port, lOpts.host)
     })
@@ -201,43 +402,6 @@ export class WebRTCDirectServer extends EventEmitter<WebRTCDirectServerEvents> {
     this.server.listen(lOpts)
   }
 
-  // Register a signalling channel created when dialling to another relay node
-  // (called from dialer)
-  // (need to keep track in the listener to be able to forward signalling messages to all connected relay peers)
-  registerSignallingChannel (signallingChannel: RTCDataChannel) {
-    // Keep track of the signalling channel from another relay node
-    this.relaySignallingChannels.push(signallingChannel)
-
-    const handleMessage = (evt: MessageEvent) => {
-      void (async () => {
-        const msgUint8Array = new Uint8Array(evt.data)
-        const msg: SignallingMessage = JSON.parse(uint8ArrayToString(msgUint8Array))
-
-        if (msg.type === 'JoinRequest') {
-          throw new Error('Unexpected JoinRequest over relay signalling channel')
-        }
-
-        await this._handlePeerSignallingMessage(signallingChannel, msgUint8Array, msg.dst)
-      })()
-    }
-
-    signallingChannel.addEventListener('message', handleMessage)
-
-    const untrackChannel = () => {
-      log('Deregistering closed relay signalling channel')
-      signallingChannel.removeEventListener('message', handleMessage)
-
-      this.relaySignallingChannels = this.relaySignallingChannels.filter(c => c !== signallingChannel)
-    }
-
-    const closingInterval = setChannelClosingInterval(signallingChannel, untrackChannel)
-
-    signallingChannel.addEventListener('close', () => {
-      clearInterval(closingInterval)
-      untrackChannel()
-    }, { once: true })
-  }
-
   async processRequest (req: IncomingMessage, res: ServerResponse) {
     const remoteAddress = req?.socket?.remoteAddress
     const remotePort = req?.socket.remotePort
@@ -251,27 +415,22 @@ export class WebRTCDirectServer extends EventEmitter<WebRTCDirectServerEvents> {
       res.end(err)
       return
     }
-    res.setHeader('Content-Type', 'text/plain')
     res.setHeader('Access-Control-Allow-Origin', '*')
 
+    // Address of the dialer as seen by this listener, reported back to it
+    const observedAddr = ipPortToMultiaddr(remoteAddress, remotePort)
     const url = new URL(requestUrl, `http://${remoteHost}`)
-    const incSignalStr = url.searchParams.get('signal')
-    let signallingChannelType = url.searchParams.get('signalling_channel')
 
-    if (incSignalStr == null) {
-      const err = new Error('Invalid listener request. Signal not found.')
-      log.error(err)
-      res.writeHead(500)
-      res.end(err)
+    // Monitoring routes, served before treating the request as a signal
+    if (this._serveMonitoringRoute(req, res, url.pathname)) {
       return
     }
 
-    if (signallingChannelType == null) {
-      signallingChannelType = SignallingChannelType.None
+    const signalRequest = await this._readSignalRequest(req, res, url, observedAddr)
+    if (signalRequest == null) {
+      return
     }
-
-    const incSignalBuf = base58btc.decode(incSignalStr)
-    const incSignal: Signal = JSON.parse(uint8ArrayToString(incSignalBuf))
+    const { incSignal, signallingChannelType, encodeSignal } = signalRequest
 
     if (incSignal.type !== 'offer') {
       // offers contain candidates so only respond to the offer
@@ -279,25 +438,55 @@ export class WebRTCDirectServer extends EventEmitter<WebRTCDirectServerEvents> {
       return
     }
 
-    const channel = new WebRTCReceiver({
+    // Reject unknown signalling channel types before taking up any resources for the offer
+    if (this.signallingRelay != null && !isSignallingChannelType(signallingChannelType)) {
+      log.error('Invalid listener request. Unknown signalling channel type: %s', signallingChannelType)
+      res.writeHead(400)
+      res.end()
+      return
+    }
+
+    // Turn the offer away if the listener is at capacity
+    const rejectStatus = this._admitOffer(remoteAddress)
+    if (rejectStatus != null) {
+      this.metrics?.httpOffers.increment({ rejected: true })
+      log('rejecting offer from %s with status %d', remoteAddress, rejectStatus)
+      res.setHeader('Retry-After', '1')
+      res.writeHead(rejectStatus)
+      res.end()
+      return
+    }
+
+    this.metrics?.httpOffers.increment({ received: true })
+
+    // The offer is in flight until the response has been sent
+    res.once('close', () => {
+      this._releaseOffer(remoteAddress)
+    })
+
+    const channel = new WebRTCDirectReceiver({
       wrtc: this.wrtc,
       ...this.receiverOptions
     })
     this.channels.push(channel)
 
+    // Untrack the channel if it closes before or after getting connected so that it stops counting against maxChannels
+    channel.addEventListener('close', () => {
+      this.channels = this.channels.filter(c => c !== channel)
+    }, { once: true })
+
     // Create a deferred promise on signalling channel as it might not be initialized yet
     const deferredSignallingChannel: DeferredPromise<void> = defer()
 
     channel.addEventListener('signal', (evt) => {
       const signal = evt.detail
-      const signalStr = JSON.stringify(signal)
-      const signalEncoded = base58btc.encode(uint8ArrayFromString(signalStr))
 
-      res.end(signalEncoded)
+      res.end(encodeSignal(signal))
     })
     channel.addEventListener('error', (evt) => {
       const err = evt.detail
 
+      this.metrics?.iceFailures.increment()
       log.error('incoming connection errored with', err)
       res.end()
       void channel.close().catch(err => {
@@ -311,7 +500,7 @@ export class WebRTCDirectServer extends EventEmitter<WebRTCDirectServerEvents> {
         await deferredSignallingChannel.promise
 
         const maConn = toMultiaddrConnection(channel, {
-          remoteAddr: ipPortToMultiaddr(remoteAddress, remotePort)
+          remoteAddr: observedAddr
         })
         log('new inbound connection %s', maConn.remoteAddr)
 
@@ -330,167 +519,189 @@ export class WebRTCDirectServer extends EventEmitter<WebRTCDirectServerEvents> {
       })()
     })
 
-    // Handle the signalling channel if signalling is enabled and specified in the request
-    if (this.signallingEnabled) {
-      switch (signallingChannelType) {
-        case SignallingChannelType.None: {
-          // Resolve immediately if signalling channel not requested
-          deferredSignallingChannel.resolve()
-          break
-        }
-
-        case SignallingChannelType.Peer:
-        case SignallingChannelType.Relay: {
-          // Handle signalling-channel event on channel
-          await this._registerSignallingChannelHandler(channel, deferredSignallingChannel, signallingChannelType)
-          break
-        }
+    try {
+      // Handle the signalling channel if signalling is enabled and specified in the request
+      if (this.signallingRelay != null && signallingChannelType !== SignallingChannelType.None) {
+        // Handle signalling-channel event on channel
+        await this._registerSignallingChannelHandler(channel, deferredSignallingChannel, signallingChannelType as SignallingChannelType, observedAddr)
+      } else {
+        // Resolve immediately if signalling not enabled or signalling channel not requested
+        deferredSignallingChannel.resolve()
+      }
 
-        default:
-          throw new Error(`Invalid signalling channel type in the listener request: ${signallingChannelType}`)
+      channel.handleSignal(incSignal)
+    } catch (err: any) {
+      // Don't leave the channel open or the request hanging if the offer can't be answered
+      log.error('failed to answer offer from %s', remoteAddress, err)
+      if (!res.headersSent) {
+        res.writeHead(500)
       }
-    } else {
-      // Resolve immediately if signalling not enabled
-      deferredSignallingChannel.resolve()
+      res.end()
+      await channel.close()
     }
-
-    channel.handleSignal(incSignal)
   }
 
-  async _registerSignallingChannelHandler (channel: WebRTCReceiver, deferredSignallingChannel: DeferredPromise<void>, type: SignallingChannelType) {
-    const handleSignallingChannel = (evt: CustomEvent<RTCDataChannel>) => {
-      const signallingChannel = evt.detail
+  // Read the signal sent in a JSON body (POST) or in the query string
+  // Returns undefined if the request has already been responded to
+  async _readSignalRequest (req: IncomingMessage, res: ServerResponse, url: URL, observedAddr: Multiaddr): Promise<SignalRequest | undefined> {
+    switch (req.method) {
+      case 'OPTIONS': {
+        // CORS preflight for POST requests with a JSON body from browsers
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+        res.writeHead(204)
+        res.end()
+        return
+      }
 
-      const trackRelaySignallingChannel = () => {
-        this.relaySignallingChannels.push(signallingChannel)
+      case 'POST': {
+        // Signal sent in a JSON body, answer returned in a JSON body
+        res.setHeader('Content-Type', 'application/json')
+
+        let body: HTTPSignalRequest
+        try {
+          body = await readJSONBody(req)
+        } catch (err: any) {
+          log.error(err)
+          res.writeHead(err.code === codes.ERR_SIGNAL_BODY_TOO_LARGE ? 413 : 400)
+          res.end()
+          return
+        }
 
-        const untrackChannel = () => {
-          this.relaySignallingChannels = this.relaySignallingChannels.filter(s => s !== signallingChannel)
+        if (body?.signal?.type == null) {
+          const err = new Error('Invalid listener request. Signal not found.')
+          log.error(err)
+          res.writeHead(400)
+          res.end()
+          return
         }
-        const closingInterval = setChannelClosingInterval(signallingChannel, untrackChannel)
 
-        signallingChannel.addEventListener('close', () => {
-          clearInterval(closingInterval)
-          untrackChannel()
-        }, { once: true })
-        signallingChannel.addEventListener('error', untrackChannel)
+        return {
+          incSignal: body.signal,
+          signallingChannelType: body.signallingChannel ?? SignallingChannelType.None,
+          encodeSignal: (signal) => {
+            const response: HTTPSignalResponse = { signal, observedAddr: observedAddr.toString() }
+            return JSON.stringify(response)
+          }
+        }
       }
 
-      const trackPeerSignallingChannel = (peerId: string) => {
-        this.peerSignallingChannelMap.set(peerId, signallingChannel)
+      default: {
+        // Signal sent base58 encoded in the query string; kept for dialers that do not use POST
+        res.setHeader('Content-Type', 'text/plain')
+
+        const incSignalStr = url.searchParams.get('signal')
 
-        // Remove the channel entry from peerSignallingChannelMap for peer
-        // if channel closes or runs into an error
-        const untrackChannel = () => {
-          this.peerSignallingChannelMap.delete(peerId)
+        if (incSignalStr == null) {
+          const err = new Error('Invalid listener request. Signal not found.')
+          log.error(err)
+          res.writeHead(500)
+          res.end(err)
+          return
         }
-        const closingInterval = setChannelClosingInterval(signallingChannel, untrackChannel)
 
-        signallingChannel.addEventListener('close', () => {
-          clearInterval(closingInterval)
-          untrackChannel()
-        }, { once: true })
-        signallingChannel.addEventListener('error', untrackChannel)
+        const incSignalBuf = base58btc.decode(incSignalStr)
+        return {
+          incSignal: JSON.parse(uint8ArrayToString(incSignalBuf)),
+          signallingChannelType: url.searchParams.get('signalling_channel') ?? SignallingChannelType.None,
+          encodeSignal: (signal) => base58btc.encode(uint8ArrayFromString(JSON.stringify(signal)))
+        }
       }
+    }
+  }
 
-      signallingChannel.addEventListener('open', () => {
-        // Keep track of the signalling channel from another relay node
-        if (type === SignallingChannelType.Relay) {
-          trackRelaySignallingChannel()
-        }
+  // Serve the health and status routes; returns whether the request was for one of them
+  _serveMonitoringRoute (req: IncomingMessage, res: ServerResponse, pathname: string): boolean {
+    if (req.method !== 'GET') {
+      return false
+    }
 
-        // Resolve deferredSignallingChannel promise when signalling channel opens
-        deferredSignallingChannel.resolve()
-      })
+    switch (pathname) {
+      case HEALTH_PATH:
+        sendJSON(res, 200, { status: 'ok' })
+        return true
 
-      // Handle signalling messages from peers
-      signallingChannel.addEventListener('message', (evt: MessageEvent) => {
-        void (async () => {
-          const msgUint8Array = new Uint8Array(evt.data)
-          const msg: SignallingMessage = JSON.parse(uint8ArrayToString(msgUint8Array))
-
-          // Keep track of the signalling channel in a map on a JoinRequest from a peer
-          // (made only once when the channel opens)
-          if (msg.type === 'JoinRequest') {
-            if (type === SignallingChannelType.Relay) {
-              throw new Error('Unexpected JoinRequest over relay signalling channel')
-            }
-
-            // Keep track of the signalling channel from peer nodes
-            trackPeerSignallingChannel(msg.peerId)
-            return
-          }
+      case STATUS_PATH:
+        sendJSON(res, 200, this.getStatus())
+        return true
 
-          await this._handlePeerSignallingMessage(signallingChannel, msgUint8Array, msg.dst)
-        })()
-      })
+      default:
+        return false
     }
-
-    channel.addEventListener('signalling-channel', handleSignallingChannel)
   }
 
-  async _handlePeerSignallingMessage (from: RTCDataChannel, msg: Uint8Array, dst: string) {
-    // Check if the message has been already seen in the time-cache
-    const isMsgSeen = await this._isMsgSeen(msg)
-    if (isMsgSeen) {
-      // Ignore if seen
-      return
-    }
+  getStatus (): WebRTCDirectServerStatus {
+    const relayStatus = this.signallingRelay?.getStatus()
 
-    this._forwardSignallingMessage(from, msg, dst)
+    return {
+      peers: relayStatus?.peers ?? [],
+      relayChannels: relayStatus?.relayChannels ?? 0,
+      routedPeers: relayStatus?.routedPeers ?? 0,
+      seenCache: relayStatus?.seenCache,
+      connections: this.connections.length,
+      uptime: this.startedAt != null ? Math.floor((Date.now() - this.startedAt) / 1000) : 0
+    }
   }
 
-  async _isMsgSeen (msg: Uint8Array) {
-    const msgEncoded = await sha256.encode(msg)
-    const msgIdStr = uint8ArrayToString(msgEncoded, 'base64')
+  // Count an incoming offer against the admission limits
+  // Returns the HTTP status to reject it with if a limit has been reached
+  _admitOffer (remoteAddress: string): number | undefined {
+    const { maxInflightOffersPerIP, maxInflightOffers, maxChannels } = this.admissionLimits
+    const inflightFromIP = this.inflightOffersPerIP.get(remoteAddress) ?? 0
+
+    if (inflightFromIP >= maxInflightOffersPerIP) {
+      return 429
+    }
 
-    if (this.seenCache.get(msgIdStr) != null) {
-      return true
+    if (this.inflightOffers >= maxInflightOffers || this.channels.length >= maxChannels) {
+      return 503
     }
 
-    this.seenCache.put(msgIdStr, true)
-    return false
+    this.inflightOffers++
+    this.inflightOffersPerIP.set(remoteAddress, inflightFromIP + 1)
   }
 
-  _forwardSignallingMessage (from: RTCDataChannel, msg: Uint8Array, dst: string) {
-    const destPeerSignallingChannel = this.peerSignallingChannelMap.get(dst)
+  _releaseOffer (remoteAddress: string) {
+    this.inflightOffers--
 
-    // Forward peer signalling message to its destination if a signalling channel is present
-    if (destPeerSignallingChannel != null) {
-      try {
-        destPeerSignallingChannel.send(msg)
-      } catch (err: any) {
-        debugLog('dest signalling channel send failed', err)
-        debugLog('destPeerSignallingChannel.readyState', destPeerSignallingChannel.readyState)
-      }
+    const inflightFromIP = (this.inflightOffersPerIP.get(remoteAddress) ?? 1) - 1
+    if (inflightFromIP === 0) {
+      this.inflightOffersPerIP.delete(remoteAddress)
     } else {
-      // Otherwise, forward the signalling message to all the connected relay nodes
-      this.relaySignallingChannels.forEach(relaySignallingChannel => {
-        // Skip the source
-        if (relaySignallingChannel === from) {
-          return
-        }
+      this.inflightOffersPerIP.set(remoteAddress, inflightFromIP)
+    }
+  }
 
-        try {
-          relaySignallingChannel.send(msg)
-        } catch (err: any) {
-          debugLog('relay signalling channel send failed', err)
-          debugLog('relaySignallingChannel.readyState', relaySignallingChannel.readyState)
-        }
+  async _registerSignallingChannelHandler (channel: WebRTCDirectReceiver, deferredSignallingChannel: DeferredPromise<void>, type: SignallingChannelType, observedAddr: Multiaddr) {
+    assert(this.signallingRelay)
+    const signallingRelay = this.signallingRelay
+
+    const handleSignallingChannel = (evt: CustomEvent<RTCDataChannel>) => {
+      const signallingChannel = evt.detail
+
+      // Keep track of the signalling channel and handle signalling messages over it
+      signallingRelay.handleSignallingChannel(signallingChannel, type, observedAddr, this.multiAddr)
+
+      signallingChannel.addEventListener('open', () => {
+        // Resolve deferredSignallingChannel promise when signalling channel opens
+        deferredSignallingChannel.resolve()
       })
     }
+
+    channel.addEventListener('signalling-channel', handleSignallingChannel)
   }
 
   async close () {
+    // Give the peers joined through this listener a chance to move to other relay nodes before tearing down
+    await this.signallingRelay?.drain(this.multiAddr)
+    this.signallingRelay?.removeListenAddr(this.multiAddr)
+
     await Promise.all(
       this.channels.map(async channel => await channel.close())
     )
 
-    // Clear the (peer - signalling channel) mapping
-    this.peerSignallingChannelMap.clear()
-
-    // Reset the list of signalling channels to relay peers
-    this.relaySignallingChannels = []
+    // Signalling channels tracked by the signalling relay get untracked as the channels close
+    // (signalling relay is shared with the other listeners)
 
     await new Promise<void>((resolve, reject) => {
       this.server.close((err) => {
@@ -503,3 +714,31 @@ export class WebRTCDirectServer extends EventEmitter<WebRTCDirectServerEvents> {
     })
   }
 }
+
+function isSignallingChannelType (type: string): type is SignallingChannelType {
+  return Object.values<string>(SignallingChannelType).includes(type)
+}
+
+function sendJSON (res: ServerResponse, status: number, body: any) {
+  res.setHeader('Content-Type', 'application/json')
+  res.writeHead(status)
+  res.end(JSON.stringify(body))
+}
+
+// Read and parse the JSON body of a request, failing if it exceeds MAX_SIGNAL_BODY_SIZE
+async function readJSONBody (req: IncomingMessage): Promise<any> {
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  for await (const chunk of req as AsyncIterable<Uint8Array>) {
+    size += chunk.length
+
+    if (size > MAX_SIGNAL_BODY_SIZE) {
+      throw errCode(new Error(`Request body exceeds ${MAX_SIGNAL_BODY_SIZE} bytes`), codes.ERR_SIGNAL_BODY_TOO_LARGE)
+    }
+
+    chunks.push(chunk)
+  }
+
+  return JSON.parse(uint8ArrayToString(uint8ArrayConcat(chunks, size)))
+}
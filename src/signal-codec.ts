@@ -0,0 +1,453 @@
+import errCode from 'err-code'
+import { peerIdFromString } from '@libp2p/peer-id'
+import { multiaddr } from '@multiformats/multiaddr'
+
+import { SignallingMessage as PBSignallingMessage, SignallingMessageHeader as PBSignallingMessageHeader } from './pb/signal-message.js'
+import { ConnectRejectReason, SignallingMessage } from './signal-message.js'
+import { MIN_SIGNALLING_PROTOCOL_VERSION, SIGNALLING_PROTOCOL_VERSION } from './constants.js'
+import { codes } from './errors.js'
+
+function invalidMessage (reason: string): Error {
+  return errCode(new Error(`Invalid signalling message: ${reason}`), codes.ERR_INVALID_SIGNALLING_MESSAGE)
+}
+
+function assertBody<T> (value: T | undefined, type: string): T {
+  if (value == null) {
+    throw invalidMessage(`missing ${type} body`)
+  }
+
+  return value
+}
+
+function assertPeerId (value: string | undefined, field: string): string {
+  if (value == null || value === '') {
+    throw invalidMessage(`missing ${field}`)
+  }
+
+  try {
+    peerIdFromString(value)
+  } catch (err: any) {
+    throw invalidMessage(`${field} is not a valid peer id`)
+  }
+
+  return value
+}
+
+function assertRequestId (value: string | undefined): string {
+  if (value == null || value === '') {
+    throw invalidMessage('missing requestId')
+  }
+
+  return value
+}
+
+function assertBytes (value: Uint8Array | undefined, field: string): Uint8Array {
+  if (value == null || value.length === 0) {
+    throw invalidMessage(`missing ${field}`)
+  }
+
+  return value
+}
+
+function assertMultiaddr (value: string, field: string): string {
+  try {
+    multiaddr(value)
+  } catch (err: any) {
+    throw invalidMessage(`${field} contains an invalid multiaddr`)
+  }
+
+  return value
+}
+
+function assertSignal (value: string | undefined): string {
+  if (value == null || value === '') {
+    throw invalidMessage('missing signal')
+  }
+
+  try {
+    JSON.parse(value)
+  } catch (err: any) {
+    throw invalidMessage('signal is not valid JSON')
+  }
+
+  return value
+}
+
+// SignallingMessage.Type.VERSION_MISMATCH in the protobuf schema, the same across versions
+const VERSION_MISMATCH_TYPE = 12
+
+// ConnectReject.Reason values in the protobuf schema
+const rejectReasonToPB: Record<ConnectRejectReason, number> = {
+  [ConnectRejectReason.UnknownPeer]: 0,
+  [ConnectRejectReason.RelayOverloaded]: 1,
+  [ConnectRejectReason.DeniedByPolicy]: 2,
+  [ConnectRejectReason.HopLimitExceeded]: 3,
+  [ConnectRejectReason.Unknown]: 4,
+  [ConnectRejectReason.NotJoined]: 5
+}
+
+const rejectReasonFromPB: Map<number, ConnectRejectReason> = new Map(
+  Object.values(ConnectRejectReason).map(reason => [rejectReasonToPB[reason], reason])
+)
+
+/**
+ * Encode a signalling message for sending over a signalling channel
+ */
+export function encodeSignallingMessage (msg: SignallingMessage): Uint8Array {
+  switch (msg.type) {
+    case 'JoinChallenge':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.JOIN_CHALLENGE,
+        joinChallenge: {
+          nonce: msg.nonce
+        }
+      })
+
+    case 'JoinRequest':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.JOIN_REQUEST,
+        joinRequest: {
+          peerId: msg.peerId,
+          signature: msg.signature,
+          publicKey: msg.publicKey
+        }
+      })
+
+    case 'ConnectRequest':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.CONNECT_REQUEST,
+        connectRequest: {
+          requestId: msg.requestId,
+          src: msg.src,
+          dst: msg.dst,
+          signal: msg.signal,
+          signature: msg.signature,
+          publicKey: msg.publicKey,
+          hopLimit: msg.hopLimit,
+          messageId: msg.messageId
+        }
+      })
+
+    case 'ConnectResponse':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.CONNECT_RESPONSE,
+        connectResponse: {
+          requestId: msg.requestId,
+          src: msg.src,
+          dst: msg.dst,
+          signal: msg.signal,
+          signature: msg.signature,
+          publicKey: msg.publicKey,
+          hopLimit: msg.hopLimit,
+          messageId: msg.messageId
+        }
+      })
+
+    case 'IceCandidate':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.ICE_CANDIDATE,
+        iceCandidate: {
+          requestId: msg.requestId,
+          src: msg.src,
+          dst: msg.dst,
+          signal: msg.signal,
+          messageId: msg.messageId
+        }
+      })
+
+    case 'ConnectReject':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.CONNECT_REJECT,
+        connectReject: {
+          requestId: msg.requestId,
+          src: msg.src,
+          dst: msg.dst,
+          reason: rejectReasonToPB[msg.reason],
+          messageId: msg.messageId
+        }
+      })
+
+    case 'PresenceUpdate':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.PRESENCE_UPDATE,
+        presenceUpdate: {
+          joined: msg.joined,
+          left: msg.left
+        }
+      })
+
+    case 'RelayShutdown':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.RELAY_SHUTDOWN,
+        relayShutdown: {
+          alternativeRelays: msg.alternativeRelays
+        }
+      })
+
+    case 'PeerQuery':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.PEER_QUERY,
+        peerQuery: {
+          subscribe: msg.subscribe
+        }
+      })
+
+    case 'PeerList':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.PEER_LIST,
+        peerList: {
+          peers: msg.peers
+        }
+      })
+
+    case 'JoinResponse':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.JOIN_RESPONSE,
+        joinResponse: {
+          accepted: msg.accepted,
+          listenAddrs: msg.listenAddrs,
+          observedAddr: msg.observedAddr
+        }
+      })
+
+    case 'IceServers':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.ICE_SERVERS,
+        iceServers: {
+          servers: msg.servers
+        }
+      })
+
+    case 'VersionMismatch':
+      return PBSignallingMessage.encode({
+        version: SIGNALLING_PROTOCOL_VERSION,
+        type: PBSignallingMessage.Type.VERSION_MISMATCH,
+        versionMismatch: {
+          minVersion: msg.minVersion,
+          maxVersion: msg.maxVersion
+        }
+      })
+
+    default:
+      throw invalidMessage('unknown message type')
+  }
+}
+
+function assertSupportedVersion (buf: Uint8Array) {
+  let header: PBSignallingMessageHeader
+
+  try {
+    header = PBSignallingMessageHeader.decode(buf)
+  } catch (err: any) {
+    throw invalidMessage(err.message)
+  }
+
+  if (header.version === 0) {
+    throw invalidMessage('missing protocol version')
+  }
+
+  // VersionMismatch is understood whatever the version of the sender
+  if (header.type === VERSION_MISMATCH_TYPE) {
+    return
+  }
+
+  if (header.version < MIN_SIGNALLING_PROTOCOL_VERSION || header.version > SIGNALLING_PROTOCOL_VERSION) {
+    throw errCode(
+      new Error(`Unsupported signalling protocol version ${header.version}, supported versions are ${MIN_SIGNALLING_PROTOCOL_VERSION} to ${SIGNALLING_PROTOCOL_VERSION}`),
+      codes.ERR_UNSUPPORTED_SIGNALLING_VERSION,
+      { version: header.version }
+    )
+  }
+}
+
+/**
+ * Decode and validate a signalling message received over a signalling channel
+ *
+ * Throws ERR_UNSUPPORTED_SIGNALLING_VERSION if the sender speaks a version
+ * of the signalling protocol outside of the supported range and
+ * ERR_INVALID_SIGNALLING_MESSAGE if the frame does not match the schema
+ */
+export function decodeSignallingMessage (buf: Uint8Array): SignallingMessage {
+  // Check the version before decoding the rest as messages in other versions may not match the schema
+  assertSupportedVersion(buf)
+
+  let pbMsg: PBSignallingMessage
+
+  try {
+    pbMsg = PBSignallingMessage.decode(buf)
+  } catch (err: any) {
+    throw invalidMessage(err.message)
+  }
+
+  switch (pbMsg.type) {
+    case PBSignallingMessage.Type.JOIN_CHALLENGE: {
+      const joinChallenge = assertBody(pbMsg.joinChallenge, 'JoinChallenge')
+
+      return {
+        type: 'JoinChallenge',
+        nonce: assertBytes(joinChallenge.nonce, 'nonce')
+      }
+    }
+
+    case PBSignallingMessage.Type.JOIN_REQUEST: {
+      const joinRequest = assertBody(pbMsg.joinRequest, 'JoinRequest')
+
+      return {
+        type: 'JoinRequest',
+        peerId: assertPeerId(joinRequest.peerId, 'peerId'),
+        signature: assertBytes(joinRequest.signature, 'signature'),
+        publicKey: assertBytes(joinRequest.publicKey, 'publicKey')
+      }
+    }
+
+    case PBSignallingMessage.Type.CONNECT_REQUEST: {
+      const connectRequest = assertBody(pbMsg.connectRequest, 'ConnectRequest')
+
+      return {
+        type: 'ConnectRequest',
+        requestId: assertRequestId(connectRequest.requestId),
+        src: assertPeerId(connectRequest.src, 'src'),
+        dst: assertPeerId(connectRequest.dst, 'dst'),
+        signal: assertSignal(connectRequest.signal),
+        signature: assertBytes(connectRequest.signature, 'signature'),
+        publicKey: assertBytes(connectRequest.publicKey, 'publicKey'),
+        hopLimit: connectRequest.hopLimit,
+        messageId: connectRequest.messageId
+      }
+    }
+
+    case PBSignallingMessage.Type.CONNECT_RESPONSE: {
+      const connectResponse = assertBody(pbMsg.connectResponse, 'ConnectResponse')
+
+      return {
+        type: 'ConnectResponse',
+        requestId: assertRequestId(connectResponse.requestId),
+        src: assertPeerId(connectResponse.src, 'src'),
+        dst: assertPeerId(connectResponse.dst, 'dst'),
+        signal: assertSignal(connectResponse.signal),
+        signature: assertBytes(connectResponse.signature, 'signature'),
+        publicKey: assertBytes(connectResponse.publicKey, 'publicKey'),
+        hopLimit: connectResponse.hopLimit,
+        messageId: connectResponse.messageId
+      }
+    }
+
+    case PBSignallingMessage.Type.ICE_CANDIDATE: {
+      const iceCandidate = assertBody(pbMsg.iceCandidate, 'IceCandidate')
+
+      return {
+        type: 'IceCandidate',
+        requestId: assertRequestId(iceCandidate.requestId),
+        src: assertPeerId(iceCandidate.src, 'src'),
+        dst: assertPeerId(iceCandidate.dst, 'dst'),
+        signal: assertSignal(iceCandidate.signal),
+        messageId: iceCandidate.messageId
+      }
+    }
+
+    case PBSignallingMessage.Type.CONNECT_REJECT: {
+      const connectReject = assertBody(pbMsg.connectReject, 'ConnectReject')
+
+      return {
+        type: 'ConnectReject',
+        requestId: assertRequestId(connectReject.requestId),
+        src: assertPeerId(connectReject.src, 'src'),
+        dst: assertPeerId(connectReject.dst, 'dst'),
+        // Reasons added by newer peers are not in the map
+        reason: rejectReasonFromPB.get(connectReject.reason) ?? ConnectRejectReason.Unknown,
+        messageId: connectReject.messageId
+      }
+    }
+
+    case PBSignallingMessage.Type.PRESENCE_UPDATE: {
+      const presenceUpdate = assertBody(pbMsg.presenceUpdate, 'PresenceUpdate')
+
+      return {
+        type: 'PresenceUpdate',
+        joined: presenceUpdate.joined.map(({ peerId, hops }) => ({
+          peerId: assertPeerId(peerId, 'joined peerId'),
+          hops
+        })),
+        left: presenceUpdate.left.map(peerId => assertPeerId(peerId, 'left peerId'))
+      }
+    }
+
+    case PBSignallingMessage.Type.RELAY_SHUTDOWN: {
+      const relayShutdown = assertBody(pbMsg.relayShutdown, 'RelayShutdown')
+
+      return {
+        type: 'RelayShutdown',
+        alternativeRelays: relayShutdown.alternativeRelays.map(addr => assertMultiaddr(addr, 'alternativeRelays'))
+      }
+    }
+
+    case PBSignallingMessage.Type.PEER_QUERY: {
+      const peerQuery = assertBody(pbMsg.peerQuery, 'PeerQuery')
+
+      return {
+        type: 'PeerQuery',
+        subscribe: peerQuery.subscribe
+      }
+    }
+
+    case PBSignallingMessage.Type.PEER_LIST: {
+      const peerList = assertBody(pbMsg.peerList, 'PeerList')
+
+      return {
+        type: 'PeerList',
+        peers: peerList.peers.map(peerId => assertPeerId(peerId, 'peers'))
+      }
+    }
+
+    case PBSignallingMessage.Type.JOIN_RESPONSE: {
+      const joinResponse = assertBody(pbMsg.joinResponse, 'JoinResponse')
+
+      return {
+        type: 'JoinResponse',
+        accepted: joinResponse.accepted,
+        listenAddrs: joinResponse.listenAddrs.map(addr => assertMultiaddr(addr, 'listenAddrs')),
+        observedAddr: joinResponse.observedAddr != null ? assertMultiaddr(joinResponse.observedAddr, 'observedAddr') : undefined
+      }
+    }
+
+    case PBSignallingMessage.Type.VERSION_MISMATCH: {
+      const versionMismatch = assertBody(pbMsg.versionMismatch, 'VersionMismatch')
+
+      return {
+        type: 'VersionMismatch',
+        minVersion: versionMismatch.minVersion,
+        maxVersion: versionMismatch.maxVersion
+      }
+    }
+
+    case PBSignallingMessage.Type.ICE_SERVERS: {
+      const iceServers = assertBody(pbMsg.iceServers, 'IceServers')
+
+      return {
+        type: 'IceServers',
+        servers: iceServers.servers.map(({ urls, username, credential }) => {
+          if (urls.length === 0) {
+            throw invalidMessage('missing ICE server urls')
+          }
+
+          return { urls, username, credential }
+        })
+      }
+    }
+
+    default:
+      throw invalidMessage('unknown message type')
+  }
+}
@@ -1,28 +1,170 @@
-// JoinRequest is made by a peer once as soon as it opens a signalling channel to the relay node
+import type { Signal } from '@cerc-io/webrtc-peer'
+
+// JoinChallenge is sent by the relay node as soon as a peer opens a signalling channel to it
+export interface JoinChallenge {
+  type: 'JoinChallenge'
+  nonce: Uint8Array
+}
+
+// JoinRequest is made by a peer once in response to the JoinChallenge from the relay node
+// signature is over the challenge nonce, made with the private key of the peer
 export interface JoinRequest {
   type: 'JoinRequest'
   peerId: string
+  signature: Uint8Array
+  publicKey: Uint8Array
+}
+
+// JoinResponse is sent by the relay node once it has handled the JoinRequest from a peer
+// accepted is set if the peer has joined and is reachable through the relay node
+export interface JoinResponse {
+  type: 'JoinResponse'
+  accepted: boolean
+  // Multiaddrs the relay node listens on
+  listenAddrs: string[]
+  // Multiaddr the relay node observed the peer's connection coming from
+  observedAddr?: string
 }
 
 // ConnectRequest is made on dial by a peer to another peer
 // listening through a signalling channel to the same primary relay node;
-// src and dst are used by the relay node to route the messages
+// src and dst are used by the relay node to route the messages;
+// requestId is unique per request and used by the dialer to match the response;
+// signed by the src peer so that relay nodes in the path can't tamper with it;
+// hopLimit is the number of relay nodes the request may still pass through,
+// set and decremented by the relay nodes (capped at their max) and not covered by the signature;
+// messageId is unique per message and used by relay nodes to drop already seen messages
+// (set by the sender or, if missing, by the first relay node; not covered by the signature)
 export interface ConnectRequest {
   type: 'ConnectRequest'
+  requestId: string
   src: string
   dst: string
   signal: string
+  signature: Uint8Array
+  publicKey: Uint8Array
+  hopLimit?: number
+  messageId?: string
 }
 
-// ConnectResponse is made by a peer to another peer on a ConnectRequest to establish a direct webrtc connection
+// ConnectResponse is made by a peer to another peer on a ConnectRequest to establish a direct webrtc connection;
+// requestId is echoed from the ConnectRequest; signed by the src peer, hop limited and identified same as the ConnectRequest
 export interface ConnectResponse {
   type: 'ConnectResponse'
+  requestId: string
+  src: string
+  dst: string
+  signal: string
+  signature: Uint8Array
+  publicKey: Uint8Array
+  hopLimit?: number
+  messageId?: string
+}
+
+// IceCandidate is made by either peer after a ConnectRequest to trickle ICE candidates to the other peer;
+// requestId is that of the ConnectRequest; messageId same as the ConnectRequest
+export interface IceCandidate {
+  type: 'IceCandidate'
+  requestId: string
   src: string
   dst: string
   signal: string
+  messageId?: string
+}
+
+// Reason for a relay node to reject a ConnectRequest
+export enum ConnectRejectReason {
+  UnknownPeer = 'unknown-peer', // destination peer is not reachable through the relay node
+  RelayOverloaded = 'relay-overloaded', // relay node is not accepting more requests
+  DeniedByPolicy = 'denied-by-policy', // relay node is not allowed to forward the request
+  HopLimitExceeded = 'hop-limit-exceeded', // request passed through too many relay nodes
+  NotJoined = 'not-joined', // request not made by a peer joined to the relay node in its own name
+  Unknown = 'unknown' // reason not known to this peer
+}
+
+// ConnectReject is sent back along the path by a relay node that cannot forward a ConnectRequest;
+// src and dst are those of a ConnectResponse to the request; messageId same as the ConnectRequest
+export interface ConnectReject {
+  type: 'ConnectReject'
+  requestId: string
+  src: string
+  dst: string
+  reason: ConnectRejectReason
+  messageId?: string
+}
+
+// PeerRoute announces a peer reachable through the sending relay node;
+// hops is the number of relay nodes between the sender and the relay the peer joined (0 if joined to the sender)
+export interface PeerRoute {
+  peerId: string
+  hops: number
 }
 
-export type SignallingMessage = JoinRequest | ConnectRequest | ConnectResponse
+// PresenceUpdate is sent by a relay node to the connected relay nodes whenever peers join or leave;
+// used by relay nodes to route signalling messages to a single next hop
+export interface PresenceUpdate {
+  type: 'PresenceUpdate'
+  joined: PeerRoute[]
+  left: string[]
+}
+
+// RelayShutdown is sent by a relay node to the joined peers when it starts shutting down;
+// peers stop using the relay node for new dials and may join one of the alternative relays (multiaddrs) instead
+export interface RelayShutdown {
+  type: 'RelayShutdown'
+  alternativeRelays: string[]
+}
+
+// PeerQuery is sent by a joined peer to the relay node to get the other peers joined to it;
+// if subscribe is set, the relay node also sends the peers joining later
+export interface PeerQuery {
+  type: 'PeerQuery'
+  subscribe: boolean
+}
+
+// PeerList is sent by a relay node in response to a PeerQuery with the peers joined to it,
+// and then to the subscribed peers with each newly joined peer
+export interface PeerList {
+  type: 'PeerList'
+  peers: string[]
+}
+
+// STUN / TURN server (compatible with RTCIceServer)
+export interface IceServer {
+  urls: string[]
+  username?: string
+  credential?: string
+}
+
+// IceServers is sent by a relay node to a peer once it joins;
+// the peer uses them for the connections it makes and answers over the signalling channel
+export interface IceServers {
+  type: 'IceServers'
+  servers: IceServer[]
+}
+
+// VersionMismatch is sent in reply to a message in an unsupported version of the signalling protocol
+// and is understood by all versions; minVersion and maxVersion are the versions supported by the sender
+export interface VersionMismatch {
+  type: 'VersionMismatch'
+  minVersion: number
+  maxVersion: number
+}
+
+export type SignallingMessage = JoinChallenge | JoinRequest | JoinResponse | ConnectRequest | ConnectResponse | IceCandidate | ConnectReject | PresenceUpdate | RelayShutdown | PeerQuery | PeerList | IceServers | VersionMismatch
+
+// Body of a POST request to the HTTP signalling endpoint of a listener
+export interface HTTPSignalRequest {
+  signal: Signal
+  signallingChannel?: SignallingChannelType
+}
+
+// Body of the response to a POST request to the HTTP signalling endpoint
+export interface HTTPSignalResponse {
+  signal: Signal
+  // Multiaddr the listener observed the request coming from
+  observedAddr?: string
+}
 
 // Signalling channel type to be set in the http connection request
 export enum SignallingChannelType {
@@ -0,0 +1,821 @@
+import { logger } from '@libp2p/logger'
+import { randomBytes } from '@libp2p/crypto'
+import type { PeerId } from '@libp2p/interface-peer-id'
+import type { Multiaddr } from '@multiformats/multiaddr'
+import defer, { DeferredPromise } from 'p-defer'
+
+import { ConnectReject, ConnectRejectReason, ConnectRequest, ConnectResponse, IceCandidate, IceServer, IceServers, JoinChallenge, JoinRequest, JoinResponse, PeerList, PeerRoute, PresenceUpdate, RelayShutdown, SignallingChannelType, SignallingMessage, VersionMismatch } from './signal-message.js'
+import { decodeSignallingMessage, encodeSignallingMessage } from './signal-codec.js'
+import { JOIN_NONCE_LENGTH, MAX_SIGNALLING_HOPS, RELAY_SHUTDOWN_GRACE_PERIOD, SEEN_CACHE_CAPACITY, SEEN_CACHE_TTL } from './constants.js'
+import { createMessageId, reportVersionMismatch, setChannelClosingInterval } from './helpers.js'
+import { createJoinRequest, verifyJoinRequest } from './signing.js'
+import { AdmissionLimits, admissionLimitsWithDefaults, RateLimiter } from './admission.js'
+import { checkPolicy, SignallingPolicy } from './policy.js'
+import type { WebRTCDirectMetrics } from './metrics.js'
+import { SeenCache, SeenCacheStats } from './seen-cache.js'
+
+const log = logger('libp2p:webrtc-direct:relay')
+const debugLog = logger('laconic:webrtc-direct:debug')
+
+// Signalling messages between peers that are forwarded by relay nodes
+type PeerSignallingMessage = ConnectRequest | ConnectResponse | IceCandidate | ConnectReject
+
+// Shutdown behaviour of relay nodes
+export interface RelayShutdownOptions {
+  // Time (ms) to wait for the joined peers to leave after notifying them before closing the listeners
+  gracePeriod?: number
+  // Multiaddrs of relay nodes sent to the joined peers to join instead
+  alternativeRelays?: string[]
+}
+
+// ICE servers sent by relay nodes to the joined peers
+// Either a static list or a callback called for each joined peer (e.g. to issue short-lived TURN credentials)
+export type IceServersProvider = IceServer[] | ((peerId: string) => IceServer[] | Promise<IceServer[]>)
+
+export interface SignallingRelayInit {
+  // Limits on the connect requests made by the joined peers
+  admissionLimits?: AdmissionLimits
+  // Allow / deny policy for joins, relay nodes and forwarded messages
+  policy?: SignallingPolicy
+  metrics?: WebRTCDirectMetrics
+  shutdown?: RelayShutdownOptions
+  // Max number of relay nodes a ConnectRequest / ConnectResponse may pass through
+  maxHops?: number
+  // Max number of message ids kept to drop already seen messages
+  seenCacheCapacity?: number
+  // ICE servers sent to the joined peers
+  iceServers?: IceServersProvider
+}
+
+// Route to a peer joined to another relay node
+interface RelayRoute {
+  // Signalling channel to the next hop relay node
+  signallingChannel: RTCDataChannel
+  // Number of relay nodes between this relay node and the one the peer joined
+  hops: number
+}
+
+// Relay node side of the signalling network
+// (shared by all the listeners of a transport so that peers and relay nodes
+//  connected through any of the listen addresses are reachable from each other)
+export class SignallingRelay {
+  // Keep track of signalling channels formed to peers by their peer id
+  // to forward signalling messages
+  private readonly peerSignallingChannelMap: Map<string, RTCDataChannel> = new Map()
+  // Peer ids the joined peers authenticated with, by their signalling channel
+  private readonly channelPeerIds: WeakMap<RTCDataChannel, string> = new WeakMap()
+
+  // Keep track of signalling channels formed to relay peers to forward signalling messages
+  // where the destination peer isn't connected
+  private relaySignallingChannels: RTCDataChannel[] = []
+
+  // Keep track of the next hop relay signalling channel for peers joined to other relay nodes
+  // (built from presence updates exchanged between relay nodes)
+  private readonly peerRoutingTable: Map<string, RelayRoute> = new Map()
+
+  // Signalling channels of the joined peers subscribed to the peers joining later
+  private readonly peerListSubscribers: Set<RTCDataChannel> = new Set()
+
+  // Multiaddrs of the listeners sharing this relay node, sent to the joining peers
+  private readonly listenAddrs: Set<string> = new Set()
+
+  // Keep the ids of recently seen signalling messages to drop them if seen again
+  readonly seenCache: SeenCache
+
+  // Limit the rate of ConnectRequests made by each joined peer
+  private readonly connectRequestLimiter: RateLimiter
+
+  // Allow / deny policy for joins, relay nodes and forwarded messages
+  private readonly policy?: SignallingPolicy
+
+  private readonly metrics?: WebRTCDirectMetrics
+
+  // Max number of relay nodes a ConnectRequest / ConnectResponse may pass through
+  private readonly maxHops: number
+
+  private readonly shutdownOptions: RelayShutdownOptions
+  private readonly iceServers?: IceServersProvider
+  // Listen address of the listener each signalling channel came in through
+  private readonly channelListenAddrs: WeakMap<RTCDataChannel, string> = new WeakMap()
+  // Drains of the listeners shutting down by listen address; joins through them are turned away
+  private readonly drains: Map<string, Promise<void>> = new Map()
+  // Called whenever a joined peer leaves, while waiting for the peers of a draining listener to leave
+  private readonly peerLeftHandlers: Set<() => void> = new Set()
+
+  constructor (init: SignallingRelayInit = {}) {
+    const { maxConnectRequestsPerPeer, connectRequestWindow } = admissionLimitsWithDefaults(init.admissionLimits)
+    this.connectRequestLimiter = new RateLimiter(maxConnectRequestsPerPeer, connectRequestWindow)
+    this.policy = init.policy
+    this.metrics = init.metrics
+    this.shutdownOptions = init.shutdown ?? {}
+    this.maxHops = init.maxHops ?? MAX_SIGNALLING_HOPS
+    this.seenCache = new SeenCache(init.seenCacheCapacity ?? SEEN_CACHE_CAPACITY, SEEN_CACHE_TTL)
+    this.iceServers = init.iceServers
+  }
+
+  // Number of signalling channels tracked to peers and relay nodes
+  getChannelCounts (): Record<string, number> {
+    return {
+      peer: this.peerSignallingChannelMap.size,
+      relay: this.relaySignallingChannels.length
+    }
+  }
+
+  addListenAddr (addr: Multiaddr) {
+    this.listenAddrs.add(addr.toString())
+    // Accept joins again if listening again on the address of a listener that has been closed
+    this.drains.delete(addr.toString())
+  }
+
+  removeListenAddr (addr: Multiaddr) {
+    this.listenAddrs.delete(addr.toString())
+  }
+
+  // Peers joined to this relay node and signalling channels to other relay nodes, for the status route
+  getStatus (): { peers: string[], relayChannels: number, routedPeers: number, seenCache: SeenCacheStats } {
+    return {
+      peers: Array.from(this.peerSignallingChannelMap.keys()),
+      relayChannels: this.relaySignallingChannels.length,
+      routedPeers: this.peerRoutingTable.size,
+      seenCache: this.seenCache.getStats()
+    }
+  }
+
+  // Stop accepting joins through the listener, notify the peers that joined through it of the shutdown
+  // and wait for them to leave, up to the grace period
+  // (the relay node is shared by the listeners; peers joined through the other listeners are left alone)
+  async drain (listenAddr: Multiaddr): Promise<void> {
+    const addr = listenAddr.toString()
+
+    let drain = this.drains.get(addr)
+    if (drain == null) {
+      drain = this._drain(addr)
+      this.drains.set(addr, drain)
+    }
+
+    await drain
+  }
+
+  async _drain (listenAddr: string) {
+    const shutdown: RelayShutdown = {
+      type: 'RelayShutdown',
+      alternativeRelays: this.shutdownOptions.alternativeRelays ?? []
+    }
+    const msg = encodeSignallingMessage(shutdown)
+
+    const peers = [...this.peerSignallingChannelMap].filter(([, signallingChannel]) => this.channelListenAddrs.get(signallingChannel) === listenAddr)
+    peers.forEach(([peerId, signallingChannel]) => {
+      try {
+        signallingChannel.send(msg)
+      } catch (err: any) {
+        debugLog('relay shutdown send failed to %s', peerId, err)
+      }
+    })
+
+    const gracePeriod = this.shutdownOptions.gracePeriod ?? RELAY_SHUTDOWN_GRACE_PERIOD
+    if (peers.length === 0 || gracePeriod <= 0) {
+      return
+    }
+
+    log('shutting down %s, waiting for %d joined peers to leave', listenAddr, peers.length)
+
+    const peersLeft: DeferredPromise<void> = defer()
+    const checkPeersLeft = () => {
+      if (peers.every(([peerId, signallingChannel]) => this.peerSignallingChannelMap.get(peerId) !== signallingChannel)) {
+        peersLeft.resolve()
+      }
+    }
+    this.peerLeftHandlers.add(checkPeersLeft)
+
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    await Promise.race([
+      peersLeft.promise,
+      new Promise<void>(resolve => { timeout = setTimeout(resolve, gracePeriod) })
+    ])
+    clearTimeout(timeout)
+    this.peerLeftHandlers.delete(checkPeersLeft)
+  }
+
+  // Register a signalling channel created when dialling to another relay node
+  // (called from dialer)
+  registerSignallingChannel (signallingChannel: RTCDataChannel, relayPeerId: string | null, peerId: PeerId) {
+    // Only handle messages from relay nodes allowed by the policy
+    const allowed = relayPeerId != null
+      ? checkPolicy(this.policy, { type: 'relay', peerId: relayPeerId })
+      : Promise.resolve(this.policy == null)
+
+    // Handle the messages one at a time in the order received, so that they are forwarded in that order
+    let handling: Promise<void> = Promise.resolve()
+
+    const handleMessage = (evt: MessageEvent) => {
+      const msgUint8Array = new Uint8Array(evt.data)
+
+      handling = handling.then(async () => {
+        const msg = decodeSignallingMessage(msgUint8Array)
+
+        // Authenticate with the relay node to be tracked by it
+        if (msg.type === 'JoinChallenge') {
+          this._sendJoinRequest(signallingChannel, await createJoinRequest(peerId, msg.nonce))
+          return
+        }
+
+        if (!await allowed) {
+          return
+        }
+
+        await this._handleRelaySignallingMessage(signallingChannel, msgUint8Array, msg)
+      }).catch(err => {
+        reportVersionMismatch(signallingChannel, err)
+        log.error('failed to handle relay signalling message', err)
+      })
+    }
+
+    signallingChannel.addEventListener('message', handleMessage)
+
+    signallingChannel.addEventListener('close', () => {
+      log('Deregistering closed relay signalling channel')
+      signallingChannel.removeEventListener('message', handleMessage)
+    }, { once: true })
+
+    // Keep track of the signalling channel from another relay node, closing it if denied by the policy
+    void allowed.then(allowed => {
+      if (!allowed) {
+        log('closing signalling channel to relay node %s denied by the policy', relayPeerId)
+        signallingChannel.close()
+        return
+      }
+
+      this._trackRelaySignallingChannel(signallingChannel)
+    })
+  }
+
+  // Handle a signalling channel created by a peer or relay node dialling one of the listeners
+  // observedAddr is the address the connection was made from, reported back to peers on joining;
+  // listenAddr is that of the listener dialled, whose closing drains the channel
+  handleSignallingChannel (signallingChannel: RTCDataChannel, type: SignallingChannelType, observedAddr?: Multiaddr, listenAddr?: Multiaddr) {
+    if (listenAddr != null) {
+      this.channelListenAddrs.set(signallingChannel, listenAddr.toString())
+    }
+
+    // Challenge the peer or relay node to prove that it holds the key for the peer id it joins with
+    // (a single JoinRequest is accepted per challenge)
+    let joinNonce: Uint8Array | undefined
+    signallingChannel.addEventListener('open', () => {
+      joinNonce = randomBytes(JOIN_NONCE_LENGTH)
+      this._sendJoinChallenge(signallingChannel, joinNonce)
+    })
+
+    // Resolved with whether the peer or relay node on the other end has joined
+    // (messages from relay nodes and peer queries are held back until then)
+    const joined: DeferredPromise<boolean> = defer()
+    // Peer id the peer on the other end joined with; it may only send messages in its own name
+    let joinedPeerId: string | undefined
+    signallingChannel.addEventListener('close', () => {
+      joined.resolve(false)
+      this.peerListSubscribers.delete(signallingChannel)
+    }, { once: true })
+
+    // Handle signalling messages from peers and relay nodes one at a time in the order received,
+    // so that they are forwarded in that order (e.g. the candidates after their ConnectRequest)
+    // The JoinRequest that the other messages wait on is handled right away
+    let handling: Promise<void> = Promise.resolve()
+
+    signallingChannel.addEventListener('message', (evt: MessageEvent) => {
+      const msgUint8Array = new Uint8Array(evt.data)
+
+      const handleError = (err: any) => {
+        reportVersionMismatch(signallingChannel, err)
+        log.error(`failed to handle ${type === SignallingChannelType.Relay ? 'relay' : 'peer'} signalling message`, err)
+      }
+
+      let msg: SignallingMessage
+      try {
+        msg = decodeSignallingMessage(msgUint8Array)
+      } catch (err: any) {
+        handleError(err)
+        return
+      }
+
+      if (msg.type === 'JoinRequest') {
+        const request = msg
+        const nonce = joinNonce
+        joinNonce = undefined
+
+        void (async () => {
+          // Keep track of the signalling channel on a verified JoinRequest
+          // (made only once in response to the JoinChallenge)
+          const accepted = await this._handleJoinRequest(signallingChannel, request, type, nonce)
+          if (type === SignallingChannelType.Relay) {
+            joined.resolve(accepted)
+            return
+          }
+
+          if (accepted) {
+            joinedPeerId = request.peerId
+          }
+          joined.resolve(accepted)
+
+          // Acknowledge the JoinRequest made in response to the challenge
+          if (nonce != null) {
+            this._sendJoinResponse(signallingChannel, accepted, observedAddr)
+          }
+
+          if (accepted) {
+            void this._sendIceServers(signallingChannel, request.peerId)
+          }
+        })().catch(handleError)
+
+        return
+      }
+
+      const handleMessage = async (msg: SignallingMessage) => {
+        // The other end may not have been able to join for speaking another version
+        if (msg.type === 'VersionMismatch') {
+          this._handleVersionMismatch(msg)
+          return
+        }
+
+        // Hold back the other messages until the other end has tried to join
+        const accepted = await joined.promise
+
+        if (type === SignallingChannelType.Relay) {
+          if (accepted) {
+            await this._handleRelaySignallingMessage(signallingChannel, msgUint8Array, msg)
+          }
+          return
+        }
+
+        await this._handlePeerMessage(signallingChannel, msgUint8Array, msg, accepted ? joinedPeerId : undefined)
+      }
+
+      const message = msg
+      handling = handling.then(async () => await handleMessage(message)).catch(handleError)
+    })
+  }
+
+  // Handle a message other than the JoinRequest from a peer once it has tried to join
+  // joinedPeerId is the peer id it joined with, if it has
+  async _handlePeerMessage (signallingChannel: RTCDataChannel, msgUint8Array: Uint8Array, msg: SignallingMessage, joinedPeerId?: string) {
+    switch (msg.type) {
+      case 'PeerQuery':
+        // Only answer peers that have joined
+        if (joinedPeerId != null) {
+          this._handlePeerQuery(signallingChannel, msg.subscribe)
+        }
+        break
+
+      case 'ConnectRequest':
+      case 'ConnectResponse':
+      case 'IceCandidate':
+      case 'ConnectReject':
+        // Only route messages from peers that have joined, sent in their own name
+        // (failing the dial right away on a ConnectRequest)
+        if (joinedPeerId == null || msg.src !== joinedPeerId) {
+          debugLog('ignoring %s from %s over a channel not joined as it', msg.type, msg.src)
+
+          if (msg.type === 'ConnectRequest') {
+            this._rejectConnectRequest(signallingChannel, msg, ConnectRejectReason.NotJoined)
+          }
+          break
+        }
+
+        // Turn away peers making too many requests
+        if (msg.type === 'ConnectRequest' && !this.connectRequestLimiter.tryAcquire(joinedPeerId)) {
+          this._rejectConnectRequest(signallingChannel, msg, ConnectRejectReason.RelayOverloaded)
+          break
+        }
+
+        await this._handlePeerSignallingMessage(signallingChannel, msgUint8Array, msg)
+        break
+
+      default:
+        throw new Error(`Unexpected ${msg.type} over peer signalling channel`)
+    }
+  }
+
+  _sendJoinChallenge (signallingChannel: RTCDataChannel, nonce: Uint8Array) {
+    const challenge: JoinChallenge = {
+      type: 'JoinChallenge',
+      nonce
+    }
+
+    try {
+      signallingChannel.send(encodeSignallingMessage(challenge))
+    } catch (err: any) {
+      debugLog('join challenge send failed', err)
+      debugLog('signallingChannel.readyState', signallingChannel.readyState)
+    }
+  }
+
+  _sendJoinRequest (signallingChannel: RTCDataChannel, request: JoinRequest) {
+    try {
+      signallingChannel.send(encodeSignallingMessage(request))
+    } catch (err: any) {
+      debugLog('join request send failed', err)
+      debugLog('signallingChannel.readyState', signallingChannel.readyState)
+    }
+  }
+
+  // Verify a JoinRequest and start tracking the signalling channel if allowed by the policy
+  // Returns whether the peer or relay node has joined
+  async _handleJoinRequest (signallingChannel: RTCDataChannel, request: JoinRequest, type: SignallingChannelType, nonce?: Uint8Array): Promise<boolean> {
+    if (nonce == null) {
+      log.error('ignoring JoinRequest from %s without a pending challenge', request.peerId)
+      return false
+    }
+
+    const listenAddr = this.channelListenAddrs.get(signallingChannel)
+    if (listenAddr != null && this.drains.has(listenAddr)) {
+      log('turning away JoinRequest from %s while shutting down', request.peerId)
+      return false
+    }
+
+    if (!await verifyJoinRequest(request, nonce)) {
+      log.error('ignoring JoinRequest from %s with an invalid signature', request.peerId)
+      return false
+    }
+
+    if (type === SignallingChannelType.Relay) {
+      if (!await checkPolicy(this.policy, { type: 'relay', peerId: request.peerId })) {
+        return false
+      }
+
+      this._trackRelaySignallingChannel(signallingChannel)
+      return true
+    }
+
+    if (!await checkPolicy(this.policy, { type: 'join', peerId: request.peerId })) {
+      return false
+    }
+
+    this._trackPeerSignallingChannel(signallingChannel, request.peerId)
+    return true
+  }
+
+  _sendJoinResponse (signallingChannel: RTCDataChannel, accepted: boolean, observedAddr?: Multiaddr) {
+    const response: JoinResponse = {
+      type: 'JoinResponse',
+      accepted,
+      listenAddrs: Array.from(this.listenAddrs),
+      observedAddr: observedAddr?.toString()
+    }
+
+    try {
+      signallingChannel.send(encodeSignallingMessage(response))
+    } catch (err: any) {
+      debugLog('join response send failed', err)
+      debugLog('signallingChannel.readyState', signallingChannel.readyState)
+    }
+  }
+
+  // Send the ICE servers to use for its connections to a newly joined peer
+  async _sendIceServers (signallingChannel: RTCDataChannel, peerId: string) {
+    if (this.iceServers == null) {
+      return
+    }
+
+    const msg: IceServers = { type: 'IceServers', servers: [] }
+
+    try {
+      msg.servers = Array.isArray(this.iceServers) ? this.iceServers : await this.iceServers(peerId)
+    } catch (err: any) {
+      log.error('failed to get ICE servers for %s', peerId, err)
+      return
+    }
+
+    if (msg.servers.length === 0) {
+      return
+    }
+
+    try {
+      signallingChannel.send(encodeSignallingMessage(msg))
+    } catch (err: any) {
+      debugLog('ICE servers send failed', err)
+      debugLog('signallingChannel.readyState', signallingChannel.readyState)
+    }
+  }
+
+  // Send the peers joined to this relay node to a joined peer, excluding itself
+  _handlePeerQuery (signallingChannel: RTCDataChannel, subscribe: boolean) {
+    const peers: string[] = []
+    this.peerSignallingChannelMap.forEach((peerSignallingChannel, peerId) => {
+      if (peerSignallingChannel !== signallingChannel) {
+        peers.push(peerId)
+      }
+    })
+
+    this._sendPeerList(signallingChannel, { type: 'PeerList', peers })
+
+    if (subscribe) {
+      this.peerListSubscribers.add(signallingChannel)
+    }
+  }
+
+  _sendPeerList (signallingChannel: RTCDataChannel, peerList: PeerList) {
+    try {
+      signallingChannel.send(encodeSignallingMessage(peerList))
+    } catch (err: any) {
+      debugLog('peer list send failed', err)
+      debugLog('signallingChannel.readyState', signallingChannel.readyState)
+    }
+  }
+
+  _trackPeerSignallingChannel (signallingChannel: RTCDataChannel, peerId: string) {
+    this.peerSignallingChannelMap.set(peerId, signallingChannel)
+    this.channelPeerIds.set(signallingChannel, peerId)
+
+    // Let the subscribed peers know of the newly joined peer
+    this.peerListSubscribers.forEach(subscriber => {
+      if (subscriber !== signallingChannel) {
+        this._sendPeerList(subscriber, { type: 'PeerList', peers: [peerId] })
+      }
+    })
+
+    // Announce the newly joined peer to the connected relay nodes
+    this._announcePresence({ type: 'PresenceUpdate', joined: [{ peerId, hops: 0 }], left: [] })
+
+    // Remove the channel entry from peerSignallingChannelMap for peer
+    // if channel closes or runs into an error
+    const untrackChannel = () => {
+      // Skip if the peer has already been untracked or has joined again over another channel
+      if (this.peerSignallingChannelMap.get(peerId) !== signallingChannel) {
+        return
+      }
+
+      this.peerSignallingChannelMap.delete(peerId)
+      this.peerListSubscribers.delete(signallingChannel)
+      this._announcePresence({ type: 'PresenceUpdate', joined: [], left: [peerId] })
+
+      this.peerLeftHandlers.forEach(handler => handler())
+    }
+    const closingInterval = setChannelClosingInterval(signallingChannel, untrackChannel)
+
+    signallingChannel.addEventListener('close', () => {
+      clearInterval(closingInterval)
+      untrackChannel()
+    }, { once: true })
+    signallingChannel.addEventListener('error', untrackChannel)
+  }
+
+  _trackRelaySignallingChannel (signallingChannel: RTCDataChannel) {
+    this.relaySignallingChannels.push(signallingChannel)
+
+    const untrackChannel = () => {
+      if (!this.relaySignallingChannels.includes(signallingChannel)) {
+        return
+      }
+
+      this.relaySignallingChannels = this.relaySignallingChannels.filter(s => s !== signallingChannel)
+
+      // Drop the routes through this relay node and let the remaining relay nodes know
+      const left: string[] = []
+      this.peerRoutingTable.forEach((route, peerId) => {
+        if (route.signallingChannel === signallingChannel) {
+          this.peerRoutingTable.delete(peerId)
+          left.push(peerId)
+        }
+      })
+
+      this._announcePresence({ type: 'PresenceUpdate', joined: [], left })
+    }
+    const closingInterval = setChannelClosingInterval(signallingChannel, untrackChannel)
+
+    signallingChannel.addEventListener('close', () => {
+      clearInterval(closingInterval)
+      untrackChannel()
+    }, { once: true })
+    signallingChannel.addEventListener('error', untrackChannel)
+
+    // Send the peers currently reachable through this relay node to the newly connected relay node
+    const joined: PeerRoute[] = [...this.peerSignallingChannelMap.keys()].map(peerId => ({ peerId, hops: 0 }))
+    this.peerRoutingTable.forEach(({ hops }, peerId) => {
+      joined.push({ peerId, hops })
+    })
+
+    this._sendPresence(signallingChannel, { type: 'PresenceUpdate', joined, left: [] })
+  }
+
+  async _handleRelaySignallingMessage (from: RTCDataChannel, msgUint8Array: Uint8Array, msg: SignallingMessage) {
+    switch (msg.type) {
+      case 'PresenceUpdate':
+        this._handlePresenceUpdate(from, msg)
+        break
+
+      case 'ConnectRequest':
+      case 'ConnectResponse':
+      case 'IceCandidate':
+      case 'ConnectReject':
+        await this._handlePeerSignallingMessage(from, msgUint8Array, msg)
+        break
+
+      case 'VersionMismatch':
+        this._handleVersionMismatch(msg)
+        break
+
+      default:
+        throw new Error(`Unexpected ${msg.type} over relay signalling channel`)
+    }
+  }
+
+  _handleVersionMismatch (mismatch: VersionMismatch) {
+    log.error('other end of signalling channel speaks signalling protocol versions %d to %d', mismatch.minVersion, mismatch.maxVersion)
+  }
+
+  _handlePresenceUpdate (from: RTCDataChannel, update: PresenceUpdate) {
+    // Only propagate the changes to the routing table to avoid announcing in loops
+    const joined: PeerRoute[] = []
+    const left: string[] = []
+
+    update.joined.forEach(({ peerId, hops }) => {
+      const route = this.peerRoutingTable.get(peerId)
+      const newRoute: RelayRoute = { signallingChannel: from, hops: hops + 1 }
+
+      // Drop routes longer than a message may travel, withdrawing the route through the announcing relay node
+      // (stale routes going around a loop of relay nodes grow until they are dropped)
+      if (newRoute.hops > this.maxHops) {
+        if (route?.signallingChannel === from) {
+          this.peerRoutingTable.delete(peerId)
+          left.push(peerId)
+        }
+
+        return
+      }
+
+      if (route != null) {
+        if (route.signallingChannel === from && route.hops === newRoute.hops) {
+          return
+        }
+
+        // Keep the existing route through another relay node if it is as short
+        if (route.signallingChannel !== from && route.hops <= newRoute.hops) {
+          return
+        }
+      }
+
+      this.peerRoutingTable.set(peerId, newRoute)
+      joined.push({ peerId, hops: newRoute.hops })
+    })
+
+    // Routes through this relay node to the peers the announcing relay node lost its route to
+    // (relay nodes only announce changes, so it would not learn them otherwise)
+    const alternatives: PeerRoute[] = []
+
+    update.left.forEach(peerId => {
+      // Only remove the route if it goes through the announcing relay node
+      const route = this.peerRoutingTable.get(peerId)
+      if (route?.signallingChannel !== from) {
+        if (this.peerSignallingChannelMap.has(peerId)) {
+          alternatives.push({ peerId, hops: 0 })
+        } else if (route != null) {
+          alternatives.push({ peerId, hops: route.hops })
+        }
+
+        return
+      }
+
+      this.peerRoutingTable.delete(peerId)
+      left.push(peerId)
+    })
+
+    this._announcePresence({ type: 'PresenceUpdate', joined, left }, from)
+    this._sendPresence(from, { type: 'PresenceUpdate', joined: alternatives, left: [] })
+  }
+
+  // Send a presence update to all the connected relay nodes except the one it came from
+  _announcePresence (update: PresenceUpdate, from?: RTCDataChannel) {
+    this.relaySignallingChannels.forEach(relaySignallingChannel => {
+      if (relaySignallingChannel === from) {
+        return
+      }
+
+      this._sendPresence(relaySignallingChannel, update)
+    })
+  }
+
+  _sendPresence (signallingChannel: RTCDataChannel, update: PresenceUpdate) {
+    // Never advertise a route back to the relay node it was learned from
+    update = {
+      ...update,
+      joined: update.joined.filter(({ peerId }) => this.peerRoutingTable.get(peerId)?.signallingChannel !== signallingChannel)
+    }
+
+    if (update.joined.length === 0 && update.left.length === 0) {
+      return
+    }
+
+    try {
+      signallingChannel.send(encodeSignallingMessage(update))
+    } catch (err: any) {
+      debugLog('presence update send failed', err)
+      debugLog('signallingChannel.readyState', signallingChannel.readyState)
+    }
+  }
+
+  async _handlePeerSignallingMessage (from: RTCDataChannel, msgUint8Array: Uint8Array, msg: PeerSignallingMessage) {
+    // Set an id on messages from peers that don't set one so that they can be recognised further along
+    let messageId = msg.messageId
+    if (messageId == null) {
+      messageId = createMessageId()
+      msg = { ...msg, messageId }
+      msgUint8Array = encodeSignallingMessage(msg)
+    }
+
+    // Ignore the message if it has been already seen
+    if (this.seenCache.checkAndAdd(messageId)) {
+      this.metrics?.seenCacheHits.increment()
+      return
+    }
+
+    await this._forwardSignallingMessage(from, msgUint8Array, msg)
+  }
+
+  async _forwardSignallingMessage (from: RTCDataChannel, msgUint8Array: Uint8Array, msg: PeerSignallingMessage) {
+    // Drop messages between peers not allowed by the policy
+    // (checked against the peer authenticated on the channel if it joined this relay node)
+    const src = this.channelPeerIds.get(from) ?? msg.src
+    if (!await checkPolicy(this.policy, { type: 'forward', src, dst: msg.dst })) {
+      if (msg.type === 'ConnectRequest') {
+        this._rejectConnectRequest(from, msg, ConnectRejectReason.DeniedByPolicy)
+      }
+
+      return
+    }
+
+    // Use up a hop, dropping messages that have passed through too many relay nodes
+    let forwardMsg = msgUint8Array
+    if (msg.type === 'ConnectRequest' || msg.type === 'ConnectResponse') {
+      const hopLimit = Math.min(msg.hopLimit ?? this.maxHops, this.maxHops)
+
+      if (hopLimit === 0) {
+        log('dropping %s from %s to %s as it exceeded the hop limit', msg.type, msg.src, msg.dst)
+
+        if (msg.type === 'ConnectRequest') {
+          this._rejectConnectRequest(from, msg, ConnectRejectReason.HopLimitExceeded)
+        }
+
+        return
+      }
+
+      forwardMsg = encodeSignallingMessage({ ...msg, hopLimit: hopLimit - 1 })
+    }
+
+    const dst = msg.dst
+    const destPeerSignallingChannel = this.peerSignallingChannelMap.get(dst)
+
+    // Forward peer signalling message to its destination if a signalling channel is present
+    if (destPeerSignallingChannel != null) {
+      try {
+        destPeerSignallingChannel.send(forwardMsg)
+        this.metrics?.forwardedMessages.increment({ [msg.type]: true })
+      } catch (err: any) {
+        debugLog('dest signalling channel send failed', err)
+        debugLog('destPeerSignallingChannel.readyState', destPeerSignallingChannel.readyState)
+      }
+      return
+    }
+
+    // Otherwise, forward the signalling message to the next hop relay node for the destination
+    const route = this.peerRoutingTable.get(dst)
+
+    // Skip if destination is unknown or the route leads back to the source
+    if (route == null || route.signallingChannel === from) {
+      debugLog('no route to peer %s', dst)
+
+      // Let the dialer know that the destination peer is unreachable
+      if (msg.type === 'ConnectRequest') {
+        this._rejectConnectRequest(from, msg, ConnectRejectReason.UnknownPeer)
+      }
+
+      return
+    }
+
+    try {
+      route.signallingChannel.send(forwardMsg)
+      this.metrics?.forwardedMessages.increment({ [msg.type]: true })
+    } catch (err: any) {
+      debugLog('relay signalling channel send failed', err)
+      debugLog('relaySignallingChannel.readyState', route.signallingChannel.readyState)
+    }
+  }
+
+  // Send a ConnectReject back towards the source of a ConnectRequest
+  _rejectConnectRequest (signallingChannel: RTCDataChannel, request: ConnectRequest, reason: ConnectRejectReason) {
+    log('rejecting connect request from %s to %s: %s', request.src, request.dst, reason)
+
+    const reject: ConnectReject = {
+      type: 'ConnectReject',
+      requestId: request.requestId,
+      src: request.dst,
+      dst: request.src,
+      reason,
+      messageId: createMessageId()
+    }
+
+    try {
+      signallingChannel.send(encodeSignallingMessage(reject))
+    } catch (err: any) {
+      debugLog('connect reject send failed', err)
+      debugLog('signallingChannel.readyState', signallingChannel.readyState)
+    }
+  }
+}
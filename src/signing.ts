@@ -0,0 +1,93 @@
+import { unmarshalPrivateKey, unmarshalPublicKey } from '@libp2p/crypto/keys'
+import { peerIdFromKeys, peerIdFromString } from '@libp2p/peer-id'
+import type { PeerId } from '@libp2p/interface-peer-id'
+import { concat as uint8ArrayConcat } from 'uint8arrays/concat'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+
+import type { ConnectRequest, ConnectResponse, JoinRequest } from './signal-message.js'
+
+// Prefix the signed payloads so that a signature can't be replayed in other contexts
+const JOIN_CHALLENGE_DOMAIN = uint8ArrayFromString('libp2p-webrtc-direct-join:')
+const CONNECT_MESSAGE_DOMAIN = uint8ArrayFromString('libp2p-webrtc-direct-connect:')
+
+// Signed ConnectRequest / ConnectResponse
+type ConnectMessage = ConnectRequest | ConnectResponse
+
+// Fields of a ConnectRequest / ConnectResponse before it is signed
+type UnsignedConnectMessage<T extends ConnectMessage> = Omit<T, 'signature' | 'publicKey'>
+
+function joinChallengePayload (nonce: Uint8Array): Uint8Array {
+  return uint8ArrayConcat([JOIN_CHALLENGE_DOMAIN, nonce])
+}
+
+function connectMessagePayload (msg: UnsignedConnectMessage<ConnectMessage>): Uint8Array {
+  // Covers the message type so that a signed request can't be passed off as a response
+  const fields = JSON.stringify([msg.type, msg.requestId, msg.src, msg.dst, msg.signal])
+
+  return uint8ArrayConcat([CONNECT_MESSAGE_DOMAIN, uint8ArrayFromString(fields)])
+}
+
+async function sign (peerId: PeerId, payload: Uint8Array): Promise<{ signature: Uint8Array, publicKey: Uint8Array }> {
+  if (peerId.privateKey == null) {
+    throw new Error('Private key missing for peer id signing the signalling message')
+  }
+
+  const privateKey = await unmarshalPrivateKey(peerId.privateKey)
+
+  return {
+    signature: await privateKey.sign(payload),
+    publicKey: privateKey.public.bytes
+  }
+}
+
+// Check that the signature over payload is made by the key behind peerId
+async function verify (peerId: string, publicKey: Uint8Array, payload: Uint8Array, signature: Uint8Array): Promise<boolean> {
+  try {
+    const keyPeerId = await peerIdFromKeys(publicKey)
+    if (!keyPeerId.equals(peerIdFromString(peerId))) {
+      return false
+    }
+
+    return await unmarshalPublicKey(publicKey).verify(payload, signature)
+  } catch (err: any) {
+    return false
+  }
+}
+
+/**
+ * Create a JoinRequest answering a JoinChallenge from a relay node
+ */
+export async function createJoinRequest (peerId: PeerId, nonce: Uint8Array): Promise<JoinRequest> {
+  return {
+    type: 'JoinRequest',
+    peerId: peerId.toString(),
+    ...await sign(peerId, joinChallengePayload(nonce))
+  }
+}
+
+/**
+ * Check that a JoinRequest is signed over the JoinChallenge nonce by the key behind its peer id
+ */
+export async function verifyJoinRequest (request: JoinRequest, nonce: Uint8Array): Promise<boolean> {
+  return await verify(request.peerId, request.publicKey, joinChallengePayload(nonce), request.signature)
+}
+
+/**
+ * Sign a ConnectRequest / ConnectResponse with the key of the originating peer
+ */
+export async function signConnectMessage<T extends ConnectMessage> (peerId: PeerId, msg: UnsignedConnectMessage<T>): Promise<T> {
+  const signed = {
+    ...msg,
+    ...await sign(peerId, connectMessagePayload(msg))
+  }
+
+  return signed as T
+}
+
+/**
+ * Check that a ConnectRequest / ConnectResponse is signed by the key behind its src peer id
+ * and hasn't been tampered with by the relay nodes in the path
+ */
+export async function verifyConnectMessage (msg: ConnectMessage): Promise<boolean> {
+  return await verify(msg.src, msg.publicKey, connectMessagePayload(msg), msg.signature)
+}
@@ -2,9 +2,9 @@ import { abortableSource } from 'abortable-iterator'
 import { CLOSE_TIMEOUT } from './constants.js'
 import { logger } from '@libp2p/logger'
 import type { MultiaddrConnection } from '@libp2p/interface-connection'
-import type { WebRTCPeer } from '@cerc-io/webrtc-peer'
 import type { AbortOptions } from '@libp2p/interfaces'
 import type { Multiaddr } from '@multiformats/multiaddr'
+import type { WebRTCDirectPeer } from './peer.js'
 
 const log = logger('libp2p:webrtc-direct:socket')
 
@@ -12,10 +12,46 @@ export interface ToMultiaddrConnectionOptions extends AbortOptions {
   remoteAddr: Multiaddr
 }
 
-export function toMultiaddrConnection (socket: WebRTCPeer, options: ToMultiaddrConnectionOptions): MultiaddrConnection {
+export interface ConnectionStats {
+  // Counted through the connection's sink and source
+  bytesSent: number
+  bytesReceived: number
+  messagesSent: number
+  messagesReceived: number
+  // From the selected ICE candidate pair of the peer connection, if there is one
+  // Round trip time (s)
+  rtt?: number
+  // Candidate types (host / srflx / prflx / relay)
+  localCandidateType?: string
+  remoteCandidateType?: string
+  // Candidate addresses (ip:port)
+  localAddress?: string
+  remoteAddress?: string
+}
+
+export interface WebRTCDirectMultiaddrConnection extends MultiaddrConnection {
+  getStats: () => Promise<ConnectionStats>
+}
+
+export function toMultiaddrConnection (socket: WebRTCDirectPeer, options: ToMultiaddrConnectionOptions): WebRTCDirectMultiaddrConnection {
   const { sink, source } = socket
 
-  const maConn: MultiaddrConnection = {
+  const counters = {
+    bytesSent: 0,
+    bytesReceived: 0,
+    messagesSent: 0,
+    messagesReceived: 0
+  }
+
+  const countedSource = (async function * () {
+    for await (const buf of source as AsyncIterable<Uint8Array>) {
+      counters.messagesReceived++
+      counters.bytesReceived += buf.byteLength
+      yield buf
+    }
+  })()
+
+  const maConn: WebRTCDirectMultiaddrConnection = {
     remoteAddr: options.remoteAddr,
 
     async sink (source) {
@@ -23,8 +59,16 @@ export function toMultiaddrConnection (socket: WebRTCPeer, options: ToMultiaddrC
         source = abortableSource(source, options.signal)
       }
 
+      const countedSink = (async function * () {
+        for await (const buf of source) {
+          counters.messagesSent++
+          counters.bytesSent += buf.byteLength
+          yield buf
+        }
+      })()
+
       try {
-        await sink(source)
+        await sink(countedSink)
       } catch (err: any) {
         // If aborted we can safely ignore
         if (err.type !== 'aborted') {
@@ -36,10 +80,19 @@ export function toMultiaddrConnection (socket: WebRTCPeer, options: ToMultiaddrC
       }
     },
 
-    source: (options.signal != null) ? abortableSource(source, options.signal) : source,
+    source: (options.signal != null) ? abortableSource(countedSource, options.signal) : countedSource,
 
     timeline: { open: Date.now() },
 
+    async getStats () {
+      const report = await socket.getStats()
+
+      return {
+        ...counters,
+        ...(report != null ? selectedCandidatePairStats(report) : {})
+      }
+    },
+
     async close () {
       if (socket.closed) {
         return
@@ -84,3 +137,60 @@ export function toMultiaddrConnection (socket: WebRTCPeer, options: ToMultiaddrC
 
   return maConn
 }
+
+// Candidate pair stats, marked selected in Firefox
+interface CandidatePairStats extends RTCIceCandidatePairStats {
+  selected?: boolean
+}
+
+// Local / remote candidate stats (not in the DOM typings)
+interface CandidateStats extends RTCStats {
+  candidateType?: string
+  address?: string
+  // address was called ip in earlier versions of the stats spec
+  ip?: string
+  port?: number
+}
+
+// Get the RTT, types and addresses of the ICE candidate pair selected by the peer connection
+function selectedCandidatePairStats (report: RTCStatsReport): Partial<ConnectionStats> {
+  let pair: CandidatePairStats | undefined
+
+  report.forEach((stats: RTCStats) => {
+    // Selected pair is referenced by the transport (or marked selected in Firefox)
+    if (stats.type === 'transport') {
+      const { selectedCandidatePairId } = stats as RTCTransportStats
+      if (selectedCandidatePairId != null) {
+        pair = report.get(selectedCandidatePairId)
+      }
+    }
+
+    if (pair == null && stats.type === 'candidate-pair' && (stats as CandidatePairStats).selected === true) {
+      pair = stats as CandidatePairStats
+    }
+  })
+
+  if (pair == null) {
+    return {}
+  }
+
+  const local: CandidateStats | undefined = report.get(pair.localCandidateId)
+  const remote: CandidateStats | undefined = report.get(pair.remoteCandidateId)
+
+  return {
+    rtt: pair.currentRoundTripTime,
+    localCandidateType: local?.candidateType,
+    remoteCandidateType: remote?.candidateType,
+    localAddress: candidateAddress(local),
+    remoteAddress: candidateAddress(remote)
+  }
+}
+
+function candidateAddress (candidate?: CandidateStats): string | undefined {
+  const address = candidate?.address ?? candidate?.ip
+  if (address == null || candidate?.port == null) {
+    return undefined
+  }
+
+  return `${address}:${candidate.port}`
+}
@@ -0,0 +1,39 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+
+import { admissionLimitsWithDefaults, RateLimiter } from '../src/admission.js'
+import { MAX_INFLIGHT_OFFERS_PER_IP } from '../src/constants.js'
+
+describe('admission control', () => {
+  it('fills in the default limits', () => {
+    const limits = admissionLimitsWithDefaults({ maxChannels: 5 })
+
+    expect(limits).to.have.property('maxChannels', 5)
+    expect(limits).to.have.property('maxInflightOffersPerIP', MAX_INFLIGHT_OFFERS_PER_IP)
+  })
+
+  it('limits events per key within a window', () => {
+    const limiter = new RateLimiter(2, 60 * 1000)
+
+    expect(limiter.tryAcquire('a')).to.be.true()
+    expect(limiter.tryAcquire('a')).to.be.true()
+    expect(limiter.tryAcquire('a')).to.be.false()
+
+    // Other keys are counted separately
+    expect(limiter.tryAcquire('b')).to.be.true()
+  })
+
+  it('allows events again in the next window', async () => {
+    const limiter = new RateLimiter(1, 50)
+
+    expect(limiter.tryAcquire('a')).to.be.true()
+    expect(limiter.tryAcquire('a')).to.be.false()
+
+    await new Promise((resolve) => {
+      setTimeout(resolve, 60)
+    })
+
+    expect(limiter.tryAcquire('a')).to.be.true()
+  })
+})
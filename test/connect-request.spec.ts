@@ -0,0 +1,95 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { mockUpgrader } from '@libp2p/interface-mocks'
+import { multiaddr } from '@multiformats/multiaddr'
+
+import { WebRTCDirect, WebRTCDirectNodeType } from '../src/index.js'
+import { WebRTCDirectSigServer } from '../src/server.js'
+import { ConnectRejectReason, ConnectRequest } from '../src/signal-message.js'
+import { signConnectMessage } from '../src/signing.js'
+import { P2P_WEBRTC_STAR_ID } from '../src/constants.js'
+import { PEER_ID, PEER_ID_1, REMOTE_MULTIADDR_IP4_PEER, SIG_PEER_ID } from './constants.js'
+import { delay, FakeSignallingChannel } from './signalling-channel.js'
+
+const request: ConnectRequest = {
+  type: 'ConnectRequest',
+  requestId: 'request-1',
+  src: PEER_ID.toString(),
+  dst: PEER_ID_1.toString(),
+  signal: JSON.stringify({ type: 'offer', sdp: 'sdp' }),
+  signature: Uint8Array.from([1]),
+  publicKey: Uint8Array.from([2]),
+  messageId: 'message-1'
+}
+
+describe('connect requests over a signalling channel', () => {
+  let wd: WebRTCDirect
+  let channel: FakeSignallingChannel
+
+  beforeEach(() => {
+    wd = new WebRTCDirect({
+      enableSignalling: true,
+      nodeType: WebRTCDirectNodeType.Peer,
+      relayPeerId: SIG_PEER_ID.toString(),
+      signallingTimeout: 100
+    }, {
+      peerId: PEER_ID
+    })
+
+    channel = new FakeSignallingChannel()
+    channel.open()
+  })
+
+  afterEach(() => {
+    channel.close()
+  })
+
+  it('times out and untracks a request without a response', async () => {
+    await expect(wd._sendConnectRequest(channel.asDataChannel(), request, { upgrader: mockUpgrader() }))
+      .to.eventually.be.rejected.with.property('code', 'ERR_SIGNALLING_TIMEOUT')
+
+    expect(channel.sentOfType('ConnectRequest')).to.have.lengthOf(1)
+    expect(wd).to.have.property('pendingConnectRequests').that.has.property('size', 0)
+  })
+
+  it('untracks a request when the dial is aborted', async () => {
+    const controller = new AbortController()
+    const response = wd._sendConnectRequest(channel.asDataChannel(), request, { upgrader: mockUpgrader(), signal: controller.signal })
+    expect(wd).to.have.property('pendingConnectRequests').that.has.property('size', 1)
+
+    controller.abort()
+
+    await expect(response).to.eventually.be.rejected.with.property('code', 'ABORT_ERR')
+    expect(wd).to.have.property('pendingConnectRequests').that.has.property('size', 0)
+  })
+})
+
+describe('connect requests to a peer listening through a signalling channel', () => {
+  const listenMultiaddr = multiaddr(`${REMOTE_MULTIADDR_IP4_PEER.toString()}/${P2P_WEBRTC_STAR_ID}`)
+
+  it('rejects a request meant for another peer', async () => {
+    const server = new WebRTCDirectSigServer(listenMultiaddr, PEER_ID_1)
+    const channel = new FakeSignallingChannel()
+    channel.open()
+    server.registerSignallingChannel(channel.asDataChannel())
+
+    // Signed by the dialer for another peer and replayed to this one
+    channel.receive(await signConnectMessage<ConnectRequest>(PEER_ID, { ...request, dst: SIG_PEER_ID.toString() }))
+    await delay()
+
+    const rejects = channel.sentOfType('ConnectReject')
+    expect(rejects).to.have.lengthOf(1)
+    expect(rejects[0]).to.include({
+      requestId: request.requestId,
+      src: PEER_ID_1.toString(),
+      dst: PEER_ID.toString(),
+      reason: ConnectRejectReason.UnknownPeer
+    })
+    expect(channel.sentOfType('ConnectResponse')).to.be.empty()
+    expect(server).to.have.property('channels').that.is.empty()
+
+    channel.close()
+    await server.close()
+  })
+})
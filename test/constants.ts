@@ -1,12 +1,24 @@
-import { peerIdFromString } from '@libp2p/peer-id'
+import { createPeerId, peerIdFromString } from '@libp2p/peer-id'
 import { multiaddr } from '@multiformats/multiaddr'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
 
 export const ECHO_PROTOCOL = '/echo/1.0.0'
 
 export const REMOTE_MULTIADDR_IP4 = multiaddr('/ip4/127.0.0.1/tcp/12345/http/p2p-webrtc-direct')
 export const REMOTE_MULTIADDR_IP6 = multiaddr('/ip6/::1/tcp/12346/http/p2p-webrtc-direct')
 
-export const PEER_ID = peerIdFromString('QmWeo5ZWjC7mVDNsbBub6WfcuT3MktVuKF7MMBXKrTMCsE')
-export const PEER_ID_1 = peerIdFromString('QmP7kBSdTjivW1e8zMnjUHkHCYFzVMuN14ycqyoRz3aJor')
+// Peer nodes sign the JoinChallenge from relay nodes, so need their private keys
+export const PEER_ID = createPeerId({
+  type: 'Ed25519',
+  multihash: peerIdFromString('12D3KooWLFnsfPKmKTpj1GAoYNzgunSVpeKnrcEoMJyubWRb9Sr2').multihash,
+  privateKey: uint8ArrayFromString('CAESQORWtGvY0cXafOGmrDvAQr1pWnA/Bh9J/ywvZ9eKEtBImxhS9mXZWcvIO1jWNuk7w1kbStkMlYBs6GuyuZ9+yj8=', 'base64pad')
+})
+export const PEER_ID_1 = createPeerId({
+  type: 'Ed25519',
+  multihash: peerIdFromString('12D3KooWM6fs5acKFtX45mSspPurgLRgwQxrgZHvy6fGgd4t78HB').multihash,
+  privateKey: uint8ArrayFromString('CAESQMG+AIGByqFLIs2RnsH9fXnqFJiW8izdkE540Lajgqkhp53bgHgtbm5Fuj5jv+lryhfhZkioeg7iOfkSu3HvASY=', 'base64pad')
+})
 export const SIG_PEER_ID = peerIdFromString('QmcgpsyWgH8Y8ajJz1Cu72KnS5uo2Aa2LpzU7kinSooo2a')
+export const SIG_PEER_ID_1 = peerIdFromString('QmcgpsyWgH8Y8ajJz1Cu72KnS5uo2Aa2LpzU7kinSoooo2')
 export const REMOTE_MULTIADDR_IP4_PEER = multiaddr(`${REMOTE_MULTIADDR_IP4.toString()}/p2p/${SIG_PEER_ID.toString()}`)
+export const REMOTE_MULTIADDR_IP6_PEER = multiaddr(`${REMOTE_MULTIADDR_IP6.toString()}/p2p/${SIG_PEER_ID.toString()}`)
@@ -13,13 +13,20 @@ import type { Uint8ArrayList } from 'uint8arraylist'
 import type { Source } from 'it-stream-types'
 import { pEvent } from 'p-event'
 import { TimeoutController } from 'timeout-abort-controller'
+import { isBrowser } from 'wherearewe'
+import { base58btc } from 'multiformats/bases/base58'
+import type { Signal } from '@cerc-io/webrtc-peer'
 
 import { P2P_WEBRTC_STAR_ID } from '../src/constants.js'
+import type { WebRTCDirect } from '../src/index.js'
+import { http } from '../src/http-server.js'
+import { SignallingChannelType } from '../src/signal-message.js'
 import {
   ECHO_PROTOCOL,
   REMOTE_MULTIADDR_IP4,
   REMOTE_MULTIADDR_IP6,
   REMOTE_MULTIADDR_IP4_PEER,
+  REMOTE_MULTIADDR_IP6_PEER,
   PEER_ID_1
 } from './constants.js'
 
@@ -186,6 +193,45 @@ export default (create: (peerIdArg?: PeerId) => Promise<Transport>) => {
       await connToNewPeer.close()
     })
 
+    it('dial peer joined through another listen address of the relay node', async () => {
+      const listener = wd.createListener({ upgrader })
+      await listener.listen(listenMultiaddr)
+
+      conn = await wd.dial(REMOTE_MULTIADDR_IP4_PEER, { upgrader })
+
+      // Wait for peer to join signalling network
+      await new Promise((resolve) => setTimeout(resolve, 2000))
+
+      // Join the relay node through its IPv6 listen address
+      const listenMultiaddrIP6 = multiaddr(`${REMOTE_MULTIADDR_IP6_PEER.toString()}/${P2P_WEBRTC_STAR_ID}`)
+      const wd1 = await create(PEER_ID_1)
+      const listener1 = wd1.createListener({ upgrader })
+      await listener1.listen(listenMultiaddrIP6)
+
+      conn1 = await wd1.dial(REMOTE_MULTIADDR_IP6_PEER, { upgrader })
+
+      // Wait for peer to join signalling network
+      await new Promise((resolve) => setTimeout(resolve, 2000))
+
+      // Dial and wait for listener to know of the connect
+      const connToNewPeer = await wd.dial(dialAddress1, { upgrader })
+      await pEvent(listener1, 'connection')
+
+      const stream = await connToNewPeer.newStream(ECHO_PROTOCOL)
+      const data = fromString('some data')
+
+      const values = await pipe(
+        [data],
+        stream,
+        toBytes,
+        async (source) => await all(source)
+      )
+
+      expect(values).to.deep.equal([data])
+
+      await connToNewPeer.close()
+    })
+
     it('dials the same peer twice', async () => {
       const listener = wd.createListener({ upgrader })
       await listener.listen(listenMultiaddr)
@@ -246,8 +292,82 @@ export default (create: (peerIdArg?: PeerId) => Promise<Transport>) => {
       const dialTimeout = 5000 // 5 sec
       const timeoutController = new TimeoutController(dialTimeout)
 
-      // Expect an attempt to dial to another non-existent peer to fail
-      await expect(wd.dial(dialAddress1, { upgrader, signal: timeoutController.signal })).to.eventually.be.rejected()
+      // Expect an attempt to dial to another non-existent peer to be rejected by the relay node
+      await expect(wd.dial(dialAddress1, { upgrader, signal: timeoutController.signal }))
+        .to.eventually.be.rejected().with.property('code', 'ERR_CONNECT_REJECTED')
+    })
+  })
+
+  describe('fetch the answer to an offer', function () {
+    if (isBrowser) {
+      return
+    }
+
+    const url = 'http://127.0.0.1:20124'
+    const offer: Signal = { type: 'offer', sdp: 'sdp' }
+    const answer: Signal = { type: 'answer', sdp: 'sdp' }
+
+    let server: ReturnType<typeof http.createServer>
+    // Methods of the signal requests received by the listener
+    let methods: string[]
+    let respond: (method: string, res: http.ServerResponse) => void
+
+    before(async () => {
+      server = http.createServer((req, res) => {
+        methods.push(req.method ?? '')
+        respond(req.method ?? '', res)
+      })
+      await new Promise<void>(resolve => server.listen(20124, '127.0.0.1', resolve))
+    })
+
+    after(async () => {
+      await new Promise(resolve => server.close(resolve))
+    })
+
+    beforeEach(() => {
+      methods = []
+    })
+
+    it('does not send the offer again over GET if the listener failed to handle it', async () => {
+      const wd = await create() as WebRTCDirect
+      respond = (method, res) => {
+        res.writeHead(500, { 'Content-Type': 'application/json' })
+        res.end()
+      }
+
+      await expect(wd._fetchAnswer(url, offer, SignallingChannelType.None))
+        .to.eventually.be.rejected().with.property('code', 'ERR_SIGNAL_REQUEST_FAILED')
+      expect(methods).to.deep.equal(['POST'])
+    })
+
+    it('fails on an offer too large for the listener', async () => {
+      const wd = await create() as WebRTCDirect
+      respond = (method, res) => {
+        res.writeHead(413)
+        res.end()
+      }
+
+      await expect(wd._fetchAnswer(url, offer, SignallingChannelType.None))
+        .to.eventually.be.rejected().with.property('code', 'ERR_SIGNAL_BODY_TOO_LARGE')
+      expect(methods).to.deep.equal(['POST'])
+    })
+
+    it('sends the offer over GET to a listener not taking POST requests', async () => {
+      const wd = await create() as WebRTCDirect
+      respond = (method, res) => {
+        if (method === 'POST') {
+          res.writeHead(405)
+          res.end()
+          return
+        }
+
+        res.writeHead(200, { 'Content-Type': 'text/plain' })
+        res.end(base58btc.encode(fromString(JSON.stringify(answer))))
+      }
+
+      const response = await wd._fetchAnswer(url, offer, SignallingChannelType.None)
+      expect(response).to.deep.equal({ signal: answer })
+      expect(methods).to.deep.equal(['POST', 'GET'])
     })
   })
 }
@@ -0,0 +1,47 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { multiaddr } from '@multiformats/multiaddr'
+import type { PeerInfo } from '@libp2p/interface-peer-info'
+
+import { WebRTCDirectDiscovery } from '../src/discovery.js'
+import { PEER_ID, PEER_ID_1 } from './constants.js'
+
+describe('peer discovery through relay nodes', () => {
+  const relayAddr = multiaddr(`/ip4/127.0.0.1/tcp/12345/http/p2p-webrtc-direct/p2p/${PEER_ID.toString()}`)
+
+  it('queries the relay nodes on start', async () => {
+    let queried = false
+    const discovery = new WebRTCDirectDiscovery(() => { queried = true })
+
+    await discovery.start()
+
+    expect(queried).to.be.true()
+    expect(discovery.isStarted()).to.be.true()
+  })
+
+  it('emits the listed peers with addresses through the relay node', async () => {
+    const discovery = new WebRTCDirectDiscovery(() => {})
+    const discovered: PeerInfo[] = []
+    discovery.addEventListener('peer', (evt) => discovered.push(evt.detail))
+
+    await discovery.start()
+    discovery.handlePeerList(relayAddr, { type: 'PeerList', peers: [PEER_ID_1.toString()] })
+
+    expect(discovered).to.have.lengthOf(1)
+    expect(discovered[0].id.equals(PEER_ID_1)).to.be.true()
+    expect(discovered[0].multiaddrs.map(ma => ma.toString())).to.deep.equal([
+      `${relayAddr.toString()}/p2p-webrtc-star/p2p/${PEER_ID_1.toString()}`
+    ])
+  })
+
+  it('does not emit peers when stopped', async () => {
+    const discovery = new WebRTCDirectDiscovery(() => {})
+    const discovered: PeerInfo[] = []
+    discovery.addEventListener('peer', (evt) => discovered.push(evt.detail))
+
+    discovery.handlePeerList(relayAddr, { type: 'PeerList', peers: [PEER_ID_1.toString()] })
+
+    expect(discovered).to.be.empty()
+  })
+})
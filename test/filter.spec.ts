@@ -4,7 +4,7 @@ import { expect } from 'aegir/chai'
 import { multiaddr } from '@multiformats/multiaddr'
 
 import { P2P_WEBRTC_STAR_ID, WebRTCDirectNodeType, webRTCDirect } from '../src/index.js'
-import { PEER_ID, PEER_ID_1, REMOTE_MULTIADDR_IP4, REMOTE_MULTIADDR_IP4_PEER, SIG_PEER_ID } from './constants.js'
+import { PEER_ID, PEER_ID_1, REMOTE_MULTIADDR_IP4, REMOTE_MULTIADDR_IP4_PEER, SIG_PEER_ID, SIG_PEER_ID_1 } from './constants.js'
 
 describe('filter', () => {
   // Peer listen address (using primary relay peer id)
@@ -76,4 +76,30 @@ describe('filter', () => {
 
     expect(filtered).to.eql(expectedAddrs)
   })
+
+  it('filters listen addresses for multiple primary relays', () => {
+    const wd = webRTCDirect({
+      enableSignalling: true,
+      nodeType: WebRTCDirectNodeType.Peer,
+      relayPeerIds: [SIG_PEER_ID.toString(), SIG_PEER_ID_1.toString()]
+    })({
+      peerId: PEER_ID
+    })
+
+    // Listen address through the second primary relay
+    const peerSigListenAddr1 = `${REMOTE_MULTIADDR_IP4.toString()}/p2p/${SIG_PEER_ID_1.toString()}/${P2P_WEBRTC_STAR_ID}`
+
+    const maArr = [
+      multiaddr(peerSigListenAddr),
+      multiaddr(peerSigListenAddr1),
+      multiaddr(peerSigInvalidListenAddr)
+    ]
+
+    const filtered = wd.filter(maArr)
+
+    expect(filtered).to.eql([
+      multiaddr(peerSigListenAddr),
+      multiaddr(peerSigListenAddr1)
+    ])
+  })
 })
@@ -0,0 +1,21 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+
+import { backoffDelay } from '../src/helpers.js'
+
+describe('backoff delay', () => {
+  it('doubles the delay with each attempt', () => {
+    for (let attempt = 0; attempt < 4; attempt++) {
+      const delay = 1000 * 2 ** attempt
+      const backoff = backoffDelay(attempt, 1000, 60 * 1000)
+
+      expect(backoff).to.be.at.least(delay / 2)
+      expect(backoff).to.be.at.most(delay)
+    }
+  })
+
+  it('caps the delay', () => {
+    expect(backoffDelay(20, 1000, 60 * 1000)).to.be.at.most(60 * 1000)
+  })
+})
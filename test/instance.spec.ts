@@ -1,8 +1,11 @@
 /* eslint-env mocha */
 
 import { expect } from 'aegir/chai'
-import { webRTCDirect } from '../src/index.js'
-import { PEER_ID } from './constants.js'
+import { peerDiscovery } from '@libp2p/interface-peer-discovery'
+import { webRTCDirect, WebRTCDirect, WebRTCDirectNodeType } from '../src/index.js'
+import { encodeSignallingMessage } from '../src/signal-codec.js'
+import { PEER_ID, PEER_ID_1, REMOTE_MULTIADDR_IP4_PEER, SIG_PEER_ID } from './constants.js'
+import { FakeSignallingChannel } from './signalling-channel.js'
 
 describe('instances', () => {
   it('create', (done) => {
@@ -12,4 +15,50 @@ describe('instances', () => {
     expect(wdirect).to.exist()
     done()
   })
+
+  it('exposes the discovery of each node through its transport', () => {
+    const factory = webRTCDirect({
+      enableSignalling: true,
+      relayPeerId: SIG_PEER_ID.toString()
+    })
+    const wdirect = factory({ peerId: PEER_ID })
+    const wdirect1 = factory({ peerId: PEER_ID_1 })
+
+    expect(wdirect1).to.not.equal(wdirect)
+    expect(wdirect[peerDiscovery]).to.equal(wdirect.discovery)
+    expect(wdirect1[peerDiscovery]).to.equal(wdirect1.discovery)
+  })
+
+  it('reports the signalling status of the primary relay nodes', () => {
+    const wdirect = new WebRTCDirect({
+      enableSignalling: true,
+      nodeType: WebRTCDirectNodeType.Peer,
+      relayPeerId: SIG_PEER_ID.toString()
+    }, {
+      peerId: PEER_ID
+    })
+
+    expect(wdirect.getSignallingStatus()).to.deep.equal({
+      reachable: false,
+      relays: [{ peerId: SIG_PEER_ID.toString(), connected: false, joined: false }]
+    })
+  })
+
+  it('forgets the ICE servers provided by the relay nodes on stopping', async () => {
+    const wdirect = new WebRTCDirect({
+      enableSignalling: true,
+      nodeType: WebRTCDirectNodeType.Peer,
+      relayPeerId: SIG_PEER_ID.toString()
+    }, {
+      peerId: PEER_ID
+    })
+    await wdirect.start()
+
+    const data = encodeSignallingMessage({ type: 'IceServers', servers: [{ urls: ['turn:127.0.0.1:3478'], username: 'user', credential: 'secret' }] })
+    wdirect._handleSignallingChannelMessage(new FakeSignallingChannel().asDataChannel(), REMOTE_MULTIADDR_IP4_PEER, new MessageEvent('message', { data }))
+    expect(wdirect).to.have.property('relayIceServers').that.has.property('size', 1)
+
+    await wdirect.stop()
+    expect(wdirect).to.have.property('relayIceServers').that.has.property('size', 0)
+  })
 })
@@ -6,14 +6,25 @@ import { mockRegistrar, mockUpgrader } from '@libp2p/interface-mocks'
 import { isBrowser } from 'wherearewe'
 import { pipe } from 'it-pipe'
 import { pEvent } from 'p-event'
-import type { Transport } from '@libp2p/interface-transport'
-import type { Connection } from '@libp2p/interface-connection'
+import type { Transport, Upgrader } from '@libp2p/interface-transport'
+import type { Connection, MultiaddrConnection } from '@libp2p/interface-connection'
 import type { PeerId } from '@libp2p/interface-peer-id'
 import defer from 'p-defer'
+import { fetch } from 'native-fetch'
+import { Signal, WebRTCInitiator } from '@cerc-io/webrtc-peer'
 
 import { P2P_WEBRTC_STAR_ID } from '../src/constants.js'
+import type { WebRTCDirect } from '../src/index.js'
+import type { WebRTCDirectListener } from '../src/listener.js'
+import { WebRTCDirectServer, WebRTCDirectSigServer } from '../src/server.js'
+import { SignallingRelay } from '../src/signalling-relay.js'
+import type { ConnectRequest } from '../src/signal-message.js'
+import { decodeSignallingMessage, encodeSignallingMessage } from '../src/signal-codec.js'
+import { signConnectMessage } from '../src/signing.js'
+import { createChannelPair, delay } from './signalling-channel.js'
 import {
   ECHO_PROTOCOL,
+  PEER_ID,
   PEER_ID_1,
   REMOTE_MULTIADDR_IP4_PEER
 } from './constants.js'
@@ -110,6 +121,114 @@ export default (create: (peerIdArg?: PeerId) => Promise<Transport>) => {
       await listener.close()
     })
 
+    it('should answer CORS preflight for POST signal requests', async () => {
+      const listener = wd.createListener({
+        upgrader: mockUpgrader()
+      })
+
+      await listener.listen(ma)
+
+      const res = await fetch('http://127.0.0.1:20123', { method: 'OPTIONS' })
+      expect(res.status).to.equal(204)
+      expect(res.headers.get('Access-Control-Allow-Methods')).to.include('POST')
+
+      await listener.close()
+    })
+
+    it('should reject POST signal requests without a signal', async () => {
+      const listener = wd.createListener({
+        upgrader: mockUpgrader()
+      })
+
+      await listener.listen(ma)
+
+      const res = await fetch('http://127.0.0.1:20123', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ signallingChannel: 'none' })
+      })
+      expect(res.status).to.equal(400)
+
+      await listener.close()
+    })
+
+    it('should reject POST signal requests for an unknown signalling channel type', async () => {
+      const server = new WebRTCDirectServer(ma, new SignallingRelay())
+      await pEvent(server, 'listening')
+
+      const res = await fetch('http://127.0.0.1:20123', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ signal: { type: 'offer', sdp: 'sdp' }, signallingChannel: 'unknown' })
+      })
+      expect(res.status).to.equal(400)
+      expect(server).to.have.property('channels').that.has.lengthOf(0)
+
+      await server.close()
+    })
+
+    it('should turn away offers over the limit per IP with a 429', async () => {
+      const server = new WebRTCDirectServer(ma, undefined, undefined, undefined, { maxInflightOffersPerIP: 0 })
+      await pEvent(server, 'listening')
+
+      const res = await fetch('http://127.0.0.1:20123', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ signal: { type: 'offer', sdp: 'sdp' } })
+      })
+      expect(res.status).to.equal(429)
+      expect(res.headers.get('Retry-After')).to.equal('1')
+
+      await server.close()
+    })
+
+    it('should turn away offers over the listener capacity with a 503', async () => {
+      const server = new WebRTCDirectServer(ma, undefined, undefined, undefined, { maxInflightOffers: 0 })
+      await pEvent(server, 'listening')
+
+      const res = await fetch('http://127.0.0.1:20123', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ signal: { type: 'offer', sdp: 'sdp' } })
+      })
+      expect(res.status).to.equal(503)
+      expect(res.headers.get('Retry-After')).to.equal('1')
+
+      await server.close()
+    })
+
+    it('should serve the health route', async () => {
+      const listener = wd.createListener({
+        upgrader: mockUpgrader()
+      })
+
+      await listener.listen(ma)
+
+      const res = await fetch('http://127.0.0.1:20123/health')
+      expect(res.status).to.equal(200)
+      expect(await res.json()).to.deep.equal({ status: 'ok' })
+
+      await listener.close()
+    })
+
+    it('should serve the status route', async () => {
+      const listener = wd.createListener({
+        upgrader: mockUpgrader()
+      })
+
+      await listener.listen(ma)
+
+      const res = await fetch('http://127.0.0.1:20123/status')
+      expect(res.status).to.equal(200)
+
+      const status = await res.json()
+      expect(status).to.include({ relayChannels: 0, routedPeers: 0, connections: 0 })
+      expect(status.peers).to.be.an('array')
+      expect(status.uptime).to.be.a('number')
+
+      await listener.close()
+    })
+
     it('should untrack conn after being closed', async function () {
       const ma1 = multiaddr('/ip4/127.0.0.1/tcp/12346/http/p2p-webrtc-direct')
       const registrar = mockRegistrar()
@@ -284,6 +403,28 @@ export default (create: (peerIdArg?: PeerId) => Promise<Transport>) => {
       await listener.close()
     })
 
+    it('listen again after redialling the signalling node on losing the connection to it', async () => {
+      const transport = wd as WebRTCDirect
+      const listener = transport.createListener({ upgrader })
+      // Redials are made with the upgrader of the transport
+      transport.upgrader = upgrader
+
+      await listener.listen(listenMultiaddr)
+      const listening = pEvent(listener, 'listening')
+      conn = await transport.dial(REMOTE_MULTIADDR_IP4_PEER, { upgrader })
+      await listening
+
+      const relayConnected = pEvent(transport, 'relay:connected')
+      const listeningAgain = pEvent(listener, 'listening')
+      await conn.close()
+
+      await relayConnected
+      await listeningAgain
+      expect(listener.getAddrs()).to.deep.equal([listenMultiaddr])
+
+      await listener.close()
+    })
+
     it('getAddrs', async () => {
       const listener = wd.createListener({ upgrader: mockUpgrader() })
 
@@ -296,6 +437,17 @@ export default (create: (peerIdArg?: PeerId) => Promise<Transport>) => {
       await listener.close()
     })
 
+    it('should untrack the listener after being closed', async () => {
+      const listener = wd.createListener({ upgrader })
+
+      await listener.listen(listenMultiaddr)
+      conn = await wd.dial(REMOTE_MULTIADDR_IP4_PEER, { upgrader })
+      expect(wd).to.have.property('peerListeners').that.has.lengthOf(1)
+
+      await listener.close()
+      expect(wd).to.have.property('peerListeners').that.has.lengthOf(0)
+    })
+
     it('should untrack conn after being closed', async function () {
       const registrar = mockRegistrar()
       void registrar.handle(ECHO_PROTOCOL, ({ stream }) => {
@@ -363,7 +515,8 @@ export default (create: (peerIdArg?: PeerId) => Promise<Transport>) => {
       const wd1 = await create(PEER_ID_1)
       const listener1 = wd1.createListener({
         handler: (conn) => {
-          expect(conn.remoteAddr).to.exist()
+          // Relay address, p2p-webrtc-star and the dialer's peer id
+          expect(conn.remoteAddr.toString()).to.equal(`${listenMultiaddr.toString()}/p2p/${PEER_ID.toString()}`)
         },
         upgrader
       })
@@ -383,4 +536,121 @@ export default (create: (peerIdArg?: PeerId) => Promise<Transport>) => {
       await conn1.close()
     })
   })
+
+  describe('connections signalled through a relay node', function () {
+    this.timeout(30 * 1000)
+
+    const listenMultiaddr = multiaddr(`${REMOTE_MULTIADDR_IP4_PEER.toString()}/${P2P_WEBRTC_STAR_ID}`)
+
+    it('should use the ICE candidates sent right after the connect request', async () => {
+      const wd = await create(PEER_ID_1) as WebRTCDirect
+      const server = new WebRTCDirectSigServer(listenMultiaddr, PEER_ID_1, wd.wrtc)
+      const [dialerEnd, listenerEnd] = createChannelPair()
+      dialerEnd.open()
+      listenerEnd.open()
+      server.registerSignallingChannel(listenerEnd.asDataChannel())
+
+      // Gather the offer and the candidates before sending any of them
+      const dialer = new WebRTCInitiator({ wrtc: wd.wrtc, trickle: true })
+      const signals: Signal[] = []
+      dialer.addEventListener('signal', (evt) => signals.push(evt.detail))
+      await delay(1000)
+
+      const offer = signals.find(signal => signal.type === 'offer')
+      const candidates = signals.filter(signal => signal.type === 'candidate')
+      expect(candidates).to.not.be.empty()
+
+      // Feed the answer and the candidates of the listener to the dialer
+      dialerEnd.addEventListener('message', (evt) => {
+        const msg = decodeSignallingMessage(new Uint8Array((evt as MessageEvent).data))
+        if (msg.type === 'ConnectResponse' || msg.type === 'IceCandidate') {
+          dialer.handleSignal(JSON.parse(msg.signal))
+        }
+      })
+
+      const connection = pEvent(server, 'connection')
+      const ready = pEvent(dialer, 'ready')
+
+      // Send the candidates back-to-back with the request, arriving while it is being verified
+      const fields = { requestId: 'request-1', src: PEER_ID.toString(), dst: PEER_ID_1.toString() }
+      dialerEnd.send(encodeSignallingMessage(await signConnectMessage<ConnectRequest>(PEER_ID, { type: 'ConnectRequest', ...fields, signal: JSON.stringify(offer) })))
+      candidates.forEach(candidate => {
+        dialerEnd.send(encodeSignallingMessage({ type: 'IceCandidate', ...fields, signal: JSON.stringify(candidate) }))
+      })
+
+      await Promise.all([connection, ready])
+      expect(server).to.have.property('pendingCandidates').that.has.property('size', 0)
+
+      await dialer.close()
+      await server.close()
+      dialerEnd.close()
+    })
+
+    it('should use the ICE servers provided by the relay node', async () => {
+      const wd = await create(PEER_ID_1) as WebRTCDirect
+
+      // Record the configuration of the peer connections made by the listener
+      const configs: RTCConfiguration[] = []
+      const BasePeerConnection = wd.wrtc?.RTCPeerConnection ?? RTCPeerConnection
+      const wrtc = {
+        ...wd.wrtc,
+        RTCPeerConnection: class extends BasePeerConnection {
+          constructor (config?: RTCConfiguration) {
+            super(config)
+            configs.push(config ?? {})
+          }
+        }
+      }
+
+      const server = new WebRTCDirectSigServer(listenMultiaddr, PEER_ID_1, wrtc)
+      const [dialerEnd, listenerEnd] = createChannelPair()
+      dialerEnd.open()
+      listenerEnd.open()
+      server.registerSignallingChannel(listenerEnd.asDataChannel())
+
+      const servers = [{ urls: ['turn:127.0.0.1:3478'], username: 'user', credential: 'secret' }]
+      dialerEnd.send(encodeSignallingMessage({ type: 'IceServers', servers }))
+
+      const dialer = new WebRTCInitiator({ wrtc: wd.wrtc, trickle: true })
+      const offer = await pEvent<'signal', CustomEvent<Signal>>(dialer, 'signal', (evt) => evt.detail.type === 'offer')
+
+      const response = pEvent(dialerEnd, 'message', (evt: MessageEvent) => decodeSignallingMessage(new Uint8Array(evt.data)).type === 'ConnectResponse')
+      const fields = { requestId: 'request-1', src: PEER_ID.toString(), dst: PEER_ID_1.toString() }
+      dialerEnd.send(encodeSignallingMessage(await signConnectMessage<ConnectRequest>(PEER_ID, { type: 'ConnectRequest', ...fields, signal: JSON.stringify(offer.detail) })))
+      await response
+
+      expect(configs).to.have.lengthOf(1)
+      expect(configs[0].iceServers).to.deep.equal(servers)
+
+      await dialer.close()
+      await server.close()
+      dialerEnd.close()
+    })
+
+    it('should reject a connection authenticating another peer than the one that requested it', async () => {
+      const wd = await create(PEER_ID_1)
+
+      // Handshake authenticating PEER_ID_1 on a connection requested by PEER_ID
+      let closed = false
+      const connection: unknown = {
+        remotePeer: PEER_ID_1,
+        close: async () => { closed = true }
+      }
+      const upgrader: unknown = {
+        upgradeInbound: async () => connection
+      }
+      const maConn: unknown = {
+        remoteAddr: multiaddr(`${listenMultiaddr.toString()}/p2p/${PEER_ID.toString()}`)
+      }
+
+      let handled = false
+      const listener = wd.createListener({ handler: () => { handled = true }, upgrader: upgrader as Upgrader }) as WebRTCDirectListener
+      listener.addEventListener('connection', () => { handled = true })
+
+      await listener.onConnection(maConn as MultiaddrConnection)
+
+      expect(closed).to.be.true()
+      expect(handled).to.be.false()
+    })
+  })
 }
@@ -0,0 +1,46 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import type { Metrics } from '@libp2p/interface-metrics'
+
+import { createMetrics } from '../src/metrics.js'
+
+describe('metrics', () => {
+  const registered: Map<string, any> = new Map()
+
+  const metric = (name: string, options?: any) => {
+    registered.set(name, options)
+
+    return {
+      increment: () => {},
+      decrement: () => {},
+      update: () => {},
+      reset: () => {},
+      timer: () => () => {}
+    }
+  }
+
+  const metrics: Metrics = {
+    trackMultiaddrConnection: () => {},
+    trackProtocolStream: () => {},
+    registerMetric: metric,
+    registerMetricGroup: metric,
+    registerCounter: metric,
+    registerCounterGroup: metric
+  }
+
+  it('registers the transport metrics', async () => {
+    createMetrics(metrics, () => ({ peer: 2, relay: 1 }))
+
+    expect([...registered.keys()]).to.include.members([
+      'libp2p_webrtc_direct_dials_total',
+      'libp2p_webrtc_direct_dial_errors_total',
+      'libp2p_webrtc_direct_http_offers_total',
+      'libp2p_webrtc_direct_forwarded_messages_total',
+      'libp2p_webrtc_direct_seen_cache_hits_total'
+    ])
+
+    const channels = registered.get('libp2p_webrtc_direct_signalling_channels')
+    expect(await channels.calculate()).to.deep.equal({ peer: 2, relay: 1 })
+  })
+})
@@ -0,0 +1,63 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { multiaddr } from '@multiformats/multiaddr'
+
+import { NatMapping, ObservedAddrs } from '../src/observed-addrs.js'
+
+describe('observed addresses', () => {
+  it('groups the reports by observed address', () => {
+    const observedAddrs = new ObservedAddrs()
+
+    observedAddrs.add('relay-1', multiaddr('/ip4/203.0.113.5/tcp/40000'))
+    observedAddrs.add('relay-2', multiaddr('/ip4/203.0.113.5/tcp/40001'))
+    observedAddrs.add('relay-3', multiaddr('/ip4/203.0.113.5/tcp/40001'))
+
+    const addrs = observedAddrs.getAddrs()
+    expect(addrs.map(({ addr }) => addr.toString())).to.deep.equal(['/ip4/203.0.113.5/tcp/40001', '/ip4/203.0.113.5/tcp/40000'])
+    expect(addrs[0].reporters).to.deep.equal(['relay-2', 'relay-3'])
+  })
+
+  it('keeps the latest report of each reporter', () => {
+    const observedAddrs = new ObservedAddrs()
+
+    observedAddrs.add('relay-1', multiaddr('/ip4/203.0.113.5/tcp/40000'))
+    observedAddrs.add('relay-1', multiaddr('/ip4/203.0.113.6/tcp/40000'))
+
+    expect(observedAddrs.getReports()).to.have.lengthOf(1)
+    expect(observedAddrs.getReports()[0].addr.toString()).to.equal('/ip4/203.0.113.6/tcp/40000')
+  })
+
+  it('infers the NAT mapping', () => {
+    const observedAddrs = new ObservedAddrs()
+
+    observedAddrs.add('relay-1', multiaddr('/ip4/203.0.113.5/tcp/40000'))
+    expect(observedAddrs.getNatMapping()).to.equal(NatMapping.Unknown)
+
+    observedAddrs.add('relay-2', multiaddr('/ip4/203.0.113.5/tcp/40000'))
+    expect(observedAddrs.getNatMapping()).to.equal(NatMapping.EndpointIndependent)
+
+    observedAddrs.add('relay-3', multiaddr('/ip4/203.0.113.6/tcp/40000'))
+    expect(observedAddrs.getNatMapping()).to.equal(NatMapping.EndpointDependent)
+  })
+
+  it('ignores the source ports when inferring the NAT mapping', () => {
+    const observedAddrs = new ObservedAddrs()
+
+    observedAddrs.add('relay-1', multiaddr('/ip4/203.0.113.5/tcp/40000'))
+    observedAddrs.add('relay-2', multiaddr('/ip4/203.0.113.5/tcp/41000'))
+
+    expect(observedAddrs.getNatMapping()).to.equal(NatMapping.EndpointIndependent)
+  })
+
+  it('compares the addresses of each address family separately when inferring the NAT mapping', () => {
+    const observedAddrs = new ObservedAddrs()
+
+    observedAddrs.add('relay-1', multiaddr('/ip4/203.0.113.5/tcp/40000'))
+    observedAddrs.add('relay-1-ip6', multiaddr('/ip6/2001:db8::5/tcp/40000'))
+    expect(observedAddrs.getNatMapping()).to.equal(NatMapping.Unknown)
+
+    observedAddrs.add('relay-2', multiaddr('/ip4/203.0.113.5/tcp/41000'))
+    expect(observedAddrs.getNatMapping()).to.equal(NatMapping.EndpointIndependent)
+  })
+})
@@ -0,0 +1,62 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+
+import { checkPolicy, SignallingPolicyRequest } from '../src/policy.js'
+import { PEER_ID, PEER_ID_1, SIG_PEER_ID, SIG_PEER_ID_1 } from './constants.js'
+
+describe('signalling policy', () => {
+  const join: SignallingPolicyRequest = { type: 'join', peerId: PEER_ID.toString() }
+  const forward: SignallingPolicyRequest = { type: 'forward', src: PEER_ID.toString(), dst: PEER_ID_1.toString() }
+
+  it('allows everything without a policy', async () => {
+    await expect(checkPolicy(undefined, join)).to.eventually.be.true()
+    await expect(checkPolicy(undefined, forward)).to.eventually.be.true()
+  })
+
+  it('only lets peers on the allow list join', async () => {
+    const policy = { allowPeers: [PEER_ID_1.toString()] }
+
+    await expect(checkPolicy(policy, join)).to.eventually.be.false()
+    await expect(checkPolicy(policy, { type: 'join', peerId: PEER_ID_1.toString() })).to.eventually.be.true()
+  })
+
+  it('denies relay nodes on the deny list', async () => {
+    const policy = { denyRelays: [SIG_PEER_ID.toString()] }
+
+    await expect(checkPolicy(policy, { type: 'relay', peerId: SIG_PEER_ID.toString() })).to.eventually.be.false()
+    await expect(checkPolicy(policy, { type: 'relay', peerId: SIG_PEER_ID_1.toString() })).to.eventually.be.true()
+  })
+
+  it('denies forwarding to and from peers on the deny list', async () => {
+    const policy = { denyPeers: [PEER_ID_1.toString()] }
+
+    await expect(checkPolicy(policy, forward)).to.eventually.be.false()
+    await expect(checkPolicy({ allowPeers: [] }, forward)).to.eventually.be.true()
+  })
+
+  it('consults the callback for requests passing the static lists', async () => {
+    const requests: SignallingPolicyRequest[] = []
+    const policy = {
+      denyPeers: [PEER_ID_1.toString()],
+      isAllowed: async (request: SignallingPolicyRequest) => {
+        requests.push(request)
+        return false
+      }
+    }
+
+    await expect(checkPolicy(policy, join)).to.eventually.be.false()
+    await expect(checkPolicy(policy, { type: 'join', peerId: PEER_ID_1.toString() })).to.eventually.be.false()
+    expect(requests).to.deep.equal([join])
+  })
+
+  it('denies if the callback throws', async () => {
+    const policy = {
+      isAllowed: () => {
+        throw new Error('policy store unavailable')
+      }
+    }
+
+    await expect(checkPolicy(policy, join)).to.eventually.be.false()
+  })
+})
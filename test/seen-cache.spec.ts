@@ -0,0 +1,39 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+
+import { SeenCache } from '../src/seen-cache.js'
+
+describe('seen cache', () => {
+  it('recognises seen message ids', () => {
+    const cache = new SeenCache(10, 60 * 1000)
+
+    expect(cache.checkAndAdd('a')).to.be.false()
+    expect(cache.checkAndAdd('a')).to.be.true()
+    expect(cache.checkAndAdd('b')).to.be.false()
+    expect(cache.getStats()).to.include({ size: 2, hits: 1 })
+  })
+
+  it('evicts the least recently seen ids when full', () => {
+    const cache = new SeenCache(2, 60 * 1000)
+
+    cache.checkAndAdd('a')
+    cache.checkAndAdd('b')
+    cache.checkAndAdd('a')
+    cache.checkAndAdd('c')
+
+    expect(cache.getStats()).to.include({ size: 2, capacity: 2, evictions: 1 })
+    expect(cache.checkAndAdd('a')).to.be.true()
+    expect(cache.checkAndAdd('b')).to.be.false()
+  })
+
+  it('forgets ids after the ttl', async () => {
+    const cache = new SeenCache(10, 10)
+
+    cache.checkAndAdd('a')
+    await new Promise(resolve => setTimeout(resolve, 20))
+
+    expect(cache.checkAndAdd('a')).to.be.false()
+    expect(cache.getStats()).to.include({ size: 1, expirations: 1 })
+  })
+})
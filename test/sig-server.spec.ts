@@ -0,0 +1,57 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { multiaddr } from '@multiformats/multiaddr'
+import { pEvent } from 'p-event'
+
+import { WebRTCDirectSigServer } from '../src/server.js'
+import { P2P_WEBRTC_STAR_ID } from '../src/constants.js'
+import { PEER_ID, REMOTE_MULTIADDR_IP4_PEER } from './constants.js'
+import { delay, FakeSignallingChannel } from './signalling-channel.js'
+
+describe('listening through a signalling channel', () => {
+  const listenMultiaddr = multiaddr(`${REMOTE_MULTIADDR_IP4_PEER.toString()}/${P2P_WEBRTC_STAR_ID}`)
+
+  let server: WebRTCDirectSigServer
+  let channel: FakeSignallingChannel
+
+  beforeEach(() => {
+    server = new WebRTCDirectSigServer(listenMultiaddr, PEER_ID, undefined, undefined, undefined, 100)
+    channel = new FakeSignallingChannel()
+    channel.open()
+  })
+
+  afterEach(async () => {
+    channel.close()
+    await server.close()
+  })
+
+  it('listens once the relay node accepts the join', async () => {
+    server.registerSignallingChannel(channel.asDataChannel())
+
+    const listening = pEvent(server, 'listening')
+    channel.receive({ type: 'JoinResponse', accepted: true, listenAddrs: [] })
+
+    await listening
+  })
+
+  it('fails the listen if the relay node rejects the join', async () => {
+    let listening = false
+    server.addEventListener('listening', () => { listening = true })
+    server.registerSignallingChannel(channel.asDataChannel())
+
+    const error = pEvent<'error', CustomEvent<Error>>(server, 'error')
+    channel.receive({ type: 'JoinResponse', accepted: false, listenAddrs: [] })
+
+    expect((await error).detail).to.have.property('code', 'ERR_JOIN_REJECTED')
+    await delay()
+    expect(listening).to.be.false()
+  })
+
+  it('fails the listen if the relay node does not acknowledge the join', async () => {
+    server.registerSignallingChannel(channel.asDataChannel())
+
+    const evt = await pEvent<'error', CustomEvent<Error>>(server, 'error')
+    expect(evt.detail).to.have.property('code', 'ERR_JOIN_TIMEOUT')
+  })
+})
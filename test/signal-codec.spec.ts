@@ -0,0 +1,132 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+
+import { decodeSignallingMessage, encodeSignallingMessage } from '../src/signal-codec.js'
+import { SignallingMessage as PBSignallingMessage } from '../src/pb/signal-message.js'
+import { MIN_SIGNALLING_PROTOCOL_VERSION, SIGNALLING_PROTOCOL_VERSION } from '../src/constants.js'
+import { ConnectRejectReason, SignallingMessage } from '../src/signal-message.js'
+import { PEER_ID, PEER_ID_1 } from './constants.js'
+
+describe('signalling message codec', () => {
+  const signal = JSON.stringify({ type: 'offer', sdp: 'v=0' })
+  const signature = Uint8Array.from([1, 2, 3])
+  const publicKey = Uint8Array.from([4, 5, 6])
+
+  const messages: SignallingMessage[] = [
+    { type: 'JoinChallenge', nonce: Uint8Array.from([1, 2, 3, 4]) },
+    { type: 'JoinRequest', peerId: PEER_ID.toString(), signature: Uint8Array.from([5, 6, 7]), publicKey: Uint8Array.from([8, 9]) },
+    { type: 'JoinResponse', accepted: true, listenAddrs: ['/ip4/127.0.0.1/tcp/12345/http/p2p-webrtc-direct'], observedAddr: '/ip4/203.0.113.5/tcp/40000' },
+    { type: 'ConnectRequest', requestId: 'a1', src: PEER_ID.toString(), dst: PEER_ID_1.toString(), signal, signature, publicKey, hopLimit: 8, messageId: 'm1' },
+    { type: 'ConnectResponse', requestId: 'a1', src: PEER_ID_1.toString(), dst: PEER_ID.toString(), signal, signature, publicKey, hopLimit: 0, messageId: 'm2' },
+    { type: 'IceCandidate', requestId: 'a1', src: PEER_ID.toString(), dst: PEER_ID_1.toString(), signal: JSON.stringify({ type: 'candidate', candidate: { candidate: 'candidate:0 1 UDP 2122252543 10.0.0.1 51000 typ host', sdpMLineIndex: 0, sdpMid: '0' } }), messageId: 'm3' },
+    { type: 'ConnectReject', requestId: 'a1', src: PEER_ID_1.toString(), dst: PEER_ID.toString(), reason: ConnectRejectReason.UnknownPeer, messageId: 'm4' },
+    { type: 'PresenceUpdate', joined: [{ peerId: PEER_ID.toString(), hops: 0 }, { peerId: PEER_ID_1.toString(), hops: 2 }], left: [] },
+    { type: 'RelayShutdown', alternativeRelays: [`/ip4/127.0.0.1/tcp/12345/http/p2p-webrtc-direct/p2p/${PEER_ID_1.toString()}`] },
+    { type: 'PeerQuery', subscribe: true },
+    { type: 'PeerList', peers: [PEER_ID.toString(), PEER_ID_1.toString()] },
+    { type: 'VersionMismatch', minVersion: 4, maxVersion: 5 },
+    { type: 'IceServers', servers: [{ urls: ['stun:stun.example.org'], username: undefined, credential: undefined }, { urls: ['turn:turn.example.org'], username: 'u', credential: 'p' }] }
+  ]
+
+  messages.forEach(msg => {
+    it(`round trips a ${msg.type}`, () => {
+      expect(decodeSignallingMessage(encodeSignallingMessage(msg))).to.deep.equal(msg)
+    })
+  })
+
+  it('rejects a malformed frame', () => {
+    expect(() => decodeSignallingMessage(uint8ArrayFromString('{"type":"JoinRequest"}')))
+      .to.throw().with.property('code', 'ERR_INVALID_SIGNALLING_MESSAGE')
+  })
+
+  it('rejects a message without a body', () => {
+    const buf = PBSignallingMessage.encode({
+      version: SIGNALLING_PROTOCOL_VERSION,
+      type: PBSignallingMessage.Type.CONNECT_REQUEST
+    })
+
+    expect(() => decodeSignallingMessage(buf))
+      .to.throw().with.property('code', 'ERR_INVALID_SIGNALLING_MESSAGE')
+  })
+
+  it('rejects an invalid peer id', () => {
+    const buf = PBSignallingMessage.encode({
+      version: SIGNALLING_PROTOCOL_VERSION,
+      type: PBSignallingMessage.Type.JOIN_REQUEST,
+      joinRequest: { peerId: 'not-a-peer-id', signature: Uint8Array.from([1]), publicKey: Uint8Array.from([1]) }
+    })
+
+    expect(() => decodeSignallingMessage(buf))
+      .to.throw().with.property('code', 'ERR_INVALID_SIGNALLING_MESSAGE')
+  })
+
+  it('rejects an invalid alternative relay address', () => {
+    const buf = PBSignallingMessage.encode({
+      version: SIGNALLING_PROTOCOL_VERSION,
+      type: PBSignallingMessage.Type.RELAY_SHUTDOWN,
+      relayShutdown: { alternativeRelays: ['not-a-multiaddr'] }
+    })
+
+    expect(() => decodeSignallingMessage(buf))
+      .to.throw().with.property('code', 'ERR_INVALID_SIGNALLING_MESSAGE')
+  })
+
+  it('decodes a reject reason added later as unknown', () => {
+    const buf = PBSignallingMessage.encode({
+      version: SIGNALLING_PROTOCOL_VERSION,
+      type: PBSignallingMessage.Type.CONNECT_REJECT,
+      connectReject: { requestId: 'a1', src: PEER_ID_1.toString(), dst: PEER_ID.toString(), reason: 99 }
+    })
+
+    expect(decodeSignallingMessage(buf)).to.have.property('reason', ConnectRejectReason.Unknown)
+  })
+
+  it('rejects an ICE server without urls', () => {
+    const buf = PBSignallingMessage.encode({
+      version: SIGNALLING_PROTOCOL_VERSION,
+      type: PBSignallingMessage.Type.ICE_SERVERS,
+      iceServers: { servers: [{ urls: [] }] }
+    })
+
+    expect(() => decodeSignallingMessage(buf))
+      .to.throw().with.property('code', 'ERR_INVALID_SIGNALLING_MESSAGE')
+  })
+
+  it('rejects a message from an older protocol version', () => {
+    const buf = PBSignallingMessage.encode({
+      version: MIN_SIGNALLING_PROTOCOL_VERSION - 1,
+      type: PBSignallingMessage.Type.JOIN_CHALLENGE,
+      joinChallenge: { nonce: Uint8Array.from([1]) }
+    })
+
+    expect(() => decodeSignallingMessage(buf))
+      .to.throw().with.property('code', 'ERR_UNSUPPORTED_SIGNALLING_VERSION')
+  })
+
+  it('decodes a VersionMismatch from any protocol version', () => {
+    const buf = PBSignallingMessage.encode({
+      version: SIGNALLING_PROTOCOL_VERSION + 1,
+      type: PBSignallingMessage.Type.VERSION_MISMATCH,
+      versionMismatch: { minVersion: SIGNALLING_PROTOCOL_VERSION + 1, maxVersion: SIGNALLING_PROTOCOL_VERSION + 1 }
+    })
+
+    expect(decodeSignallingMessage(buf)).to.deep.equal({
+      type: 'VersionMismatch',
+      minVersion: SIGNALLING_PROTOCOL_VERSION + 1,
+      maxVersion: SIGNALLING_PROTOCOL_VERSION + 1
+    })
+  })
+
+  it('rejects a message from a newer protocol version', () => {
+    const buf = PBSignallingMessage.encode({
+      version: SIGNALLING_PROTOCOL_VERSION + 1,
+      type: PBSignallingMessage.Type.JOIN_CHALLENGE,
+      joinChallenge: { nonce: Uint8Array.from([1]) }
+    })
+
+    expect(() => decodeSignallingMessage(buf))
+      .to.throw().with.property('code', 'ERR_UNSUPPORTED_SIGNALLING_VERSION')
+  })
+})
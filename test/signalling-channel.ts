@@ -0,0 +1,112 @@
+import { keys } from '@libp2p/crypto'
+import { peerIdFromKeys } from '@libp2p/peer-id'
+import type { PeerId } from '@libp2p/interface-peer-id'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+import { decodeSignallingMessage, encodeSignallingMessage } from '../src/signal-codec.js'
+import { SignallingChannelType, SignallingMessage } from '../src/signal-message.js'
+import { createJoinRequest } from '../src/signing.js'
+import type { SignallingRelay } from '../src/signalling-relay.js'
+
+// In-memory stand-in for a signalling data channel
+// Keeps the messages sent over it and delivers them to the other end if connected to one
+export class FakeSignallingChannel extends EventTarget {
+  readyState: RTCDataChannelState = 'connecting'
+  readonly sent: SignallingMessage[] = []
+  remote?: FakeSignallingChannel
+  // Time (ms) the messages sent take to reach the other end
+  latency = 0
+
+  send (data: Uint8Array) {
+    if (this.readyState !== 'open') {
+      throw new Error('channel not open')
+    }
+
+    this.sent.push(decodeSignallingMessage(data))
+
+    const remote = this.remote
+    if (remote != null) {
+      setTimeout(() => remote.dispatchEvent(new MessageEvent('message', { data })), this.latency)
+    }
+  }
+
+  open () {
+    this.readyState = 'open'
+    this.dispatchEvent(new Event('open'))
+  }
+
+  close () {
+    if (this.readyState === 'closed') {
+      return
+    }
+
+    this.readyState = 'closed'
+    this.dispatchEvent(new Event('close'))
+    this.remote?.close()
+  }
+
+  // Deliver a message as if sent from the other end
+  receive (msg: SignallingMessage) {
+    this.receiveFrame(encodeSignallingMessage(msg))
+  }
+
+  receiveFrame (data: Uint8Array) {
+    this.dispatchEvent(new MessageEvent('message', { data }))
+  }
+
+  // Messages of a type sent over the channel
+  sentOfType <T extends SignallingMessage['type']> (type: T): Array<Extract<SignallingMessage, { type: T }>> {
+    return this.sent.filter((msg): msg is Extract<SignallingMessage, { type: T }> => msg.type === type)
+  }
+
+  asDataChannel (): RTCDataChannel {
+    const channel: unknown = this
+    return channel as RTCDataChannel
+  }
+}
+
+// Two connected ends of a signalling channel, the messages sent from the first one arriving after latency ms
+export function createChannelPair (latency = 0): [FakeSignallingChannel, FakeSignallingChannel] {
+  const a = new FakeSignallingChannel()
+  const b = new FakeSignallingChannel()
+  a.remote = b
+  b.remote = a
+  a.latency = latency
+
+  return [a, b]
+}
+
+export async function delay (ms = 20) {
+  return await new Promise(resolve => setTimeout(resolve, ms))
+}
+
+export async function createRelayPeerId (): Promise<PeerId> {
+  const key = await keys.generateKeyPair('Ed25519')
+  return await peerIdFromKeys(key.public.bytes, key.bytes)
+}
+
+// Open a signalling channel from a peer to the relay (through the listener on listenAddr if given) and answer the join challenge
+export async function joinPeer (relay: SignallingRelay, peerId: PeerId, listenAddr?: Multiaddr): Promise<FakeSignallingChannel> {
+  const channel = new FakeSignallingChannel()
+  relay.handleSignallingChannel(channel.asDataChannel(), SignallingChannelType.Peer, undefined, listenAddr)
+  channel.open()
+
+  const [challenge] = channel.sentOfType('JoinChallenge')
+  channel.receive(await createJoinRequest(peerId, challenge.nonce))
+  await delay()
+
+  return channel
+}
+
+// Form a signalling channel between two relays, dialled from the first one
+// (the messages from the dialer arriving after latency ms)
+export async function connectRelays (dialer: SignallingRelay, dialerPeerId: PeerId, listener: SignallingRelay, latency = 0): Promise<FakeSignallingChannel> {
+  const [dialerEnd, listenerEnd] = createChannelPair(latency)
+  listener.handleSignallingChannel(listenerEnd.asDataChannel(), SignallingChannelType.Relay)
+  dialer.registerSignallingChannel(dialerEnd.asDataChannel(), null, dialerPeerId)
+  dialerEnd.readyState = 'open'
+  listenerEnd.open()
+  await delay(50)
+
+  return dialerEnd
+}
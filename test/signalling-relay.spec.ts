@@ -0,0 +1,262 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import type { PeerId } from '@libp2p/interface-peer-id'
+
+import { SignallingRelay } from '../src/signalling-relay.js'
+import { ConnectRejectReason, ConnectRequest, SignallingChannelType } from '../src/signal-message.js'
+import { SignallingMessage as PBSignallingMessage } from '../src/pb/signal-message.js'
+import { createJoinRequest } from '../src/signing.js'
+import { MIN_SIGNALLING_PROTOCOL_VERSION, SIGNALLING_PROTOCOL_VERSION } from '../src/constants.js'
+import { PEER_ID, PEER_ID_1, REMOTE_MULTIADDR_IP4, REMOTE_MULTIADDR_IP6, SIG_PEER_ID } from './constants.js'
+import { connectRelays, createRelayPeerId, delay, FakeSignallingChannel, joinPeer } from './signalling-channel.js'
+
+function connectRequest (src: PeerId, dst: PeerId, messageId: string): ConnectRequest {
+  return {
+    type: 'ConnectRequest',
+    requestId: messageId,
+    src: src.toString(),
+    dst: dst.toString(),
+    signal: JSON.stringify({ type: 'offer', sdp: 'sdp' }),
+    signature: Uint8Array.from([1]),
+    publicKey: Uint8Array.from([2]),
+    messageId
+  }
+}
+
+describe('signalling relay', () => {
+  let channels: FakeSignallingChannel[]
+
+  beforeEach(() => {
+    channels = []
+  })
+
+  afterEach(() => {
+    channels.forEach(channel => channel.close())
+  })
+
+  it('replies to a message in an unsupported protocol version with the supported versions', async () => {
+    const relay = new SignallingRelay()
+    const channel = new FakeSignallingChannel()
+    channels.push(channel)
+    relay.handleSignallingChannel(channel.asDataChannel(), SignallingChannelType.Peer)
+    channel.open()
+
+    channel.receiveFrame(PBSignallingMessage.encode({
+      version: MIN_SIGNALLING_PROTOCOL_VERSION - 1,
+      type: PBSignallingMessage.Type.JOIN_REQUEST,
+      joinRequest: { peerId: PEER_ID.toString(), signature: Uint8Array.from([1]), publicKey: Uint8Array.from([2]) }
+    }))
+    await delay()
+
+    expect(channel.sentOfType('VersionMismatch')).to.deep.equal([{
+      type: 'VersionMismatch',
+      minVersion: MIN_SIGNALLING_PROTOCOL_VERSION,
+      maxVersion: SIGNALLING_PROTOCOL_VERSION
+    }])
+    expect(relay.getStatus().peers).to.be.empty()
+  })
+
+  it('ignores connect requests over a channel that has not joined', async () => {
+    const relay = new SignallingRelay()
+    const peer = await joinPeer(relay, PEER_ID_1)
+    const dialer = new FakeSignallingChannel()
+    channels.push(peer, dialer)
+    relay.handleSignallingChannel(dialer.asDataChannel(), SignallingChannelType.Peer)
+    dialer.open()
+
+    dialer.receive(connectRequest(PEER_ID, PEER_ID_1, 'm1'))
+    // Closing the channel settles the join as failed
+    dialer.close()
+    await delay()
+
+    expect(peer.sentOfType('ConnectRequest')).to.be.empty()
+  })
+
+  it('rejects connect requests over a channel that failed to join', async () => {
+    const relay = new SignallingRelay()
+    const peer = await joinPeer(relay, PEER_ID_1)
+    const dialer = new FakeSignallingChannel()
+    channels.push(peer, dialer)
+    relay.handleSignallingChannel(dialer.asDataChannel(), SignallingChannelType.Peer)
+    dialer.open()
+
+    // Answer another challenge than the one sent
+    dialer.receive(await createJoinRequest(PEER_ID, Uint8Array.from([1, 2, 3])))
+    dialer.receive(connectRequest(PEER_ID, PEER_ID_1, 'm1'))
+    await delay()
+
+    expect(peer.sentOfType('ConnectRequest')).to.be.empty()
+    expect(dialer.sentOfType('ConnectReject')[0]).to.include({ requestId: 'm1', reason: ConnectRejectReason.NotJoined })
+  })
+
+  it('rejects connect requests made in the name of another peer', async () => {
+    const relay = new SignallingRelay()
+    const peerId = await createRelayPeerId()
+    const dialer = await joinPeer(relay, PEER_ID)
+    const peer = await joinPeer(relay, PEER_ID_1)
+    channels.push(dialer, peer)
+
+    dialer.receive(connectRequest(peerId, PEER_ID_1, 'm1'))
+    await delay()
+    expect(peer.sentOfType('ConnectRequest')).to.be.empty()
+    expect(dialer.sentOfType('ConnectReject')[0]).to.include({ requestId: 'm1', reason: ConnectRejectReason.NotJoined })
+
+    dialer.receive(connectRequest(PEER_ID, PEER_ID_1, 'm2'))
+    await delay()
+    expect(peer.sentOfType('ConnectRequest').map(({ messageId }) => messageId)).to.deep.equal(['m2'])
+  })
+
+  it('rejects a connect request that has used up its hop limit', async () => {
+    const relay = new SignallingRelay()
+    const dialer = await joinPeer(relay, PEER_ID)
+    const peer = await joinPeer(relay, PEER_ID_1)
+    channels.push(dialer, peer)
+
+    dialer.receive({ ...connectRequest(PEER_ID, PEER_ID_1, 'm1'), hopLimit: 0 })
+    await delay()
+
+    expect(peer.sentOfType('ConnectRequest')).to.be.empty()
+    const rejects = dialer.sentOfType('ConnectReject')
+    expect(rejects).to.have.lengthOf(1)
+    expect(rejects[0]).to.include({
+      requestId: 'm1',
+      src: PEER_ID_1.toString(),
+      dst: PEER_ID.toString(),
+      reason: ConnectRejectReason.HopLimitExceeded
+    })
+  })
+
+  it('forwards the messages from a peer in the order sent while the policy decides on them', async () => {
+    // Take longer to decide on the first message forwarded
+    let forwards = 0
+    const relay = new SignallingRelay({
+      policy: {
+        isAllowed: async (request) => {
+          if (request.type === 'forward' && forwards++ === 0) {
+            await delay(50)
+          }
+
+          return true
+        }
+      }
+    })
+    const dialer = await joinPeer(relay, PEER_ID)
+    const peer = await joinPeer(relay, PEER_ID_1)
+    channels.push(dialer, peer)
+
+    dialer.receive(connectRequest(PEER_ID, PEER_ID_1, 'm1'))
+    dialer.receive({ type: 'IceCandidate', requestId: 'm1', src: PEER_ID.toString(), dst: PEER_ID_1.toString(), signal: '{}', messageId: 'm2' })
+    await delay(100)
+
+    const forwarded = peer.sent.filter(({ type }) => type === 'ConnectRequest' || type === 'IceCandidate')
+    expect(forwarded.map(({ type }) => type)).to.deep.equal(['ConnectRequest', 'IceCandidate'])
+  })
+
+  it('closes a signalling channel to a relay node denied by the policy', async () => {
+    const relay = new SignallingRelay({ policy: { denyRelays: [SIG_PEER_ID.toString()] } })
+    const channel = new FakeSignallingChannel()
+    channels.push(channel)
+    channel.open()
+
+    relay.registerSignallingChannel(channel.asDataChannel(), SIG_PEER_ID.toString(), await createRelayPeerId())
+    await delay()
+
+    expect(channel.readyState).to.equal('closed')
+    expect(relay.getStatus().relayChannels).to.equal(0)
+  })
+
+  it('only drains the peers joined through the closing listener', async () => {
+    const relay = new SignallingRelay({ shutdown: { gracePeriod: 50 } })
+    const [listenAddr, otherListenAddr] = [REMOTE_MULTIADDR_IP4, REMOTE_MULTIADDR_IP6]
+    relay.addListenAddr(listenAddr)
+    relay.addListenAddr(otherListenAddr)
+
+    const peer = await joinPeer(relay, PEER_ID, listenAddr)
+    const otherPeer = await joinPeer(relay, PEER_ID_1, otherListenAddr)
+    channels.push(peer, otherPeer)
+
+    await relay.drain(listenAddr)
+
+    expect(peer.sentOfType('RelayShutdown')).to.have.lengthOf(1)
+    expect(otherPeer.sentOfType('RelayShutdown')).to.be.empty()
+
+    // Joins are only turned away through the closed listener
+    const [peerId, otherPeerId] = await Promise.all([createRelayPeerId(), createRelayPeerId()])
+    const rejected = await joinPeer(relay, peerId, listenAddr)
+    const accepted = await joinPeer(relay, otherPeerId, otherListenAddr)
+    channels.push(rejected, accepted)
+
+    expect(rejected.sentOfType('JoinResponse')[0]).to.have.property('accepted', false)
+    expect(accepted.sentOfType('JoinResponse')[0]).to.have.property('accepted', true)
+  })
+
+  it('accepts joins again after listening again on a drained listen address', async () => {
+    const relay = new SignallingRelay({ shutdown: { gracePeriod: 50 } })
+    relay.addListenAddr(REMOTE_MULTIADDR_IP4)
+    channels.push(await joinPeer(relay, PEER_ID, REMOTE_MULTIADDR_IP4))
+
+    await relay.drain(REMOTE_MULTIADDR_IP4)
+    relay.removeListenAddr(REMOTE_MULTIADDR_IP4)
+    relay.addListenAddr(REMOTE_MULTIADDR_IP4)
+
+    const peer = await joinPeer(relay, PEER_ID_1, REMOTE_MULTIADDR_IP4)
+    channels.push(peer)
+    expect(peer.sentOfType('JoinResponse')[0]).to.have.property('accepted', true)
+  })
+
+  it('routes around a failed link between relay nodes', async () => {
+    const [relayA, relayB, relayC] = [new SignallingRelay(), new SignallingRelay(), new SignallingRelay()]
+    const [peerIdA, peerIdB] = await Promise.all([createRelayPeerId(), createRelayPeerId()])
+
+    // A - B - C and A - C
+    channels.push(await connectRelays(relayA, peerIdA, relayB))
+    channels.push(await connectRelays(relayB, peerIdB, relayC))
+    const linkAC = await connectRelays(relayA, peerIdA, relayC)
+    channels.push(linkAC)
+
+    const dialer = await joinPeer(relayA, PEER_ID)
+    const peer = await joinPeer(relayC, PEER_ID_1)
+    channels.push(dialer, peer)
+    await delay(50)
+
+    dialer.receive(connectRequest(PEER_ID, PEER_ID_1, 'm1'))
+    await delay(50)
+    expect(peer.sentOfType('ConnectRequest')).to.have.lengthOf(1)
+
+    // A drops the direct route to the peer and learns the one through B again
+    linkAC.close()
+    await delay(100)
+
+    dialer.receive(connectRequest(PEER_ID, PEER_ID_1, 'm2'))
+    await delay(50)
+    expect(peer.sentOfType('ConnectRequest').map(({ messageId }) => messageId)).to.deep.equal(['m1', 'm2'])
+    expect(dialer.sentOfType('ConnectReject')).to.be.empty()
+  })
+
+  it('forgets a peer that left when a link between relay nodes delivers messages late', async () => {
+    const [relayA, relayB, relayC] = [new SignallingRelay(), new SignallingRelay(), new SignallingRelay()]
+    const [peerIdA, peerIdC] = await Promise.all([createRelayPeerId(), createRelayPeerId()])
+
+    // A - B - C and A - C, messages from C to B arriving late
+    channels.push(await connectRelays(relayA, peerIdA, relayB))
+    channels.push(await connectRelays(relayA, peerIdA, relayC))
+    channels.push(await connectRelays(relayC, peerIdC, relayB, 100))
+
+    const peer = await joinPeer(relayC, PEER_ID_1)
+    const dialer = await joinPeer(relayA, PEER_ID)
+    channels.push(dialer)
+    await delay(300)
+    expect([relayA, relayB, relayC].map(relay => relay.getStatus().routedPeers)).to.deep.equal([1, 2, 1])
+
+    peer.close()
+    await delay(1000)
+
+    // Only the routes to the dialer joined to A are left
+    expect([relayA, relayB, relayC].map(relay => relay.getStatus().routedPeers)).to.deep.equal([0, 1, 1])
+
+    dialer.receive(connectRequest(PEER_ID, PEER_ID_1, 'm1'))
+    await delay(50)
+    expect(dialer.sentOfType('ConnectReject')[0]).to.have.property('reason', ConnectRejectReason.UnknownPeer)
+  })
+})
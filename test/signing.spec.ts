@@ -0,0 +1,81 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+
+import { createJoinRequest, signConnectMessage, verifyConnectMessage, verifyJoinRequest } from '../src/signing.js'
+import type { ConnectRequest, ConnectResponse } from '../src/signal-message.js'
+import { PEER_ID, PEER_ID_1 } from './constants.js'
+
+describe('signalling message signing', () => {
+  const nonce = Uint8Array.from([1, 2, 3, 4, 5, 6, 7, 8])
+
+  it('verifies a join request signed over the challenge nonce', async () => {
+    const request = await createJoinRequest(PEER_ID, nonce)
+
+    await expect(verifyJoinRequest(request, nonce)).to.eventually.be.true()
+  })
+
+  it('rejects a join request signed over another nonce', async () => {
+    const request = await createJoinRequest(PEER_ID, Uint8Array.from([8, 7, 6, 5, 4, 3, 2, 1]))
+
+    await expect(verifyJoinRequest(request, nonce)).to.eventually.be.false()
+  })
+
+  it('rejects a join request for a peer id not matching the signing key', async () => {
+    const request = await createJoinRequest(PEER_ID, nonce)
+
+    await expect(verifyJoinRequest({ ...request, peerId: PEER_ID_1.toString() }, nonce)).to.eventually.be.false()
+  })
+
+  describe('connect messages', () => {
+    const unsignedRequest = {
+      type: 'ConnectRequest' as const,
+      requestId: 'a1',
+      src: PEER_ID.toString(),
+      dst: PEER_ID_1.toString(),
+      signal: JSON.stringify({ type: 'offer', sdp: 'v=0' })
+    }
+
+    it('verifies a connect request signed by its src peer', async () => {
+      const request = await signConnectMessage<ConnectRequest>(PEER_ID, unsignedRequest)
+
+      await expect(verifyConnectMessage(request)).to.eventually.be.true()
+    })
+
+    it('verifies a connect request with the hop limit updated by relay nodes', async () => {
+      const request = await signConnectMessage<ConnectRequest>(PEER_ID, unsignedRequest)
+
+      await expect(verifyConnectMessage({ ...request, hopLimit: 3 })).to.eventually.be.true()
+    })
+
+    it('rejects a connect request signed by a peer other than src', async () => {
+      const request = await signConnectMessage<ConnectRequest>(PEER_ID_1, unsignedRequest)
+
+      await expect(verifyConnectMessage(request)).to.eventually.be.false()
+    })
+
+    it('rejects a connect request with a rewritten src', async () => {
+      const request = await signConnectMessage<ConnectRequest>(PEER_ID, unsignedRequest)
+
+      await expect(verifyConnectMessage({ ...request, src: PEER_ID_1.toString() })).to.eventually.be.false()
+    })
+
+    it('rejects a connect response with a substituted signal', async () => {
+      const response = await signConnectMessage<ConnectResponse>(PEER_ID_1, {
+        type: 'ConnectResponse',
+        requestId: 'a1',
+        src: PEER_ID_1.toString(),
+        dst: PEER_ID.toString(),
+        signal: JSON.stringify({ type: 'answer', sdp: 'v=0' })
+      })
+
+      await expect(verifyConnectMessage({ ...response, signal: JSON.stringify({ type: 'answer', sdp: 'v=1' }) })).to.eventually.be.false()
+    })
+
+    it('rejects a signed connect request passed off as a response', async () => {
+      const request = await signConnectMessage<ConnectRequest>(PEER_ID, unsignedRequest)
+
+      await expect(verifyConnectMessage({ ...request, type: 'ConnectResponse' })).to.eventually.be.false()
+    })
+  })
+})
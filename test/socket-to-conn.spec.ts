@@ -0,0 +1,68 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { multiaddr } from '@multiformats/multiaddr'
+import { pipe } from 'it-pipe'
+import all from 'it-all'
+
+import { toMultiaddrConnection } from '../src/socket-to-conn.js'
+import type { WebRTCDirectPeer } from '../src/peer.js'
+
+describe('multiaddr connection', () => {
+  const remoteAddr = multiaddr('/ip4/127.0.0.1/tcp/9090/http/p2p-webrtc-direct')
+
+  // Socket with a peer connection reporting a selected candidate pair, or none if closed
+  function createSocket (received: Uint8Array[], sent: Uint8Array[], closed = false) {
+    const report = new Map<string, any>([
+      ['T1', { type: 'transport', selectedCandidatePairId: 'CP1' }],
+      ['CP1', { type: 'candidate-pair', localCandidateId: 'L1', remoteCandidateId: 'R1', currentRoundTripTime: 0.05 }],
+      ['L1', { type: 'local-candidate', candidateType: 'host', address: '10.0.0.1', port: 51000 }],
+      ['R1', { type: 'remote-candidate', candidateType: 'srflx', address: '1.2.3.4', port: 52000 }]
+    ])
+
+    const socket = {
+      closed: false,
+      source: (async function * () { yield * received })(),
+      sink: async (source: AsyncIterable<Uint8Array>) => {
+        for await (const buf of source) {
+          sent.push(buf)
+        }
+      },
+      addEventListener: () => {},
+      getStats: async () => closed ? undefined : report
+    }
+
+    const webRTCPeer: unknown = socket
+    return webRTCPeer as WebRTCDirectPeer
+  }
+
+  it('counts bytes and messages in each direction', async () => {
+    const sent: Uint8Array[] = []
+    const maConn = toMultiaddrConnection(createSocket([Uint8Array.from([1, 2, 3])], sent), { remoteAddr })
+
+    await maConn.sink([Uint8Array.from([1]), Uint8Array.from([2, 3])])
+    await pipe(maConn.source, async (source) => await all(source))
+
+    const stats = await maConn.getStats()
+    expect(stats).to.include({ bytesSent: 3, messagesSent: 2, bytesReceived: 3, messagesReceived: 1 })
+    expect(sent).to.have.lengthOf(2)
+  })
+
+  it('reports the selected candidate pair', async () => {
+    const maConn = toMultiaddrConnection(createSocket([], []), { remoteAddr })
+
+    expect(await maConn.getStats()).to.include({
+      rtt: 0.05,
+      localCandidateType: 'host',
+      remoteCandidateType: 'srflx',
+      localAddress: '10.0.0.1:51000',
+      remoteAddress: '1.2.3.4:52000'
+    })
+  })
+
+  it('reports only the counters once the peer connection is closed', async () => {
+    const maConn = toMultiaddrConnection(createSocket([], [], true), { remoteAddr })
+
+    expect(await maConn.getStats()).to.deep.equal({ bytesSent: 0, bytesReceived: 0, messagesSent: 0, messagesReceived: 0 })
+  })
+})